@@ -0,0 +1,5 @@
+import { ProcessingStatus } from "@/components/processing-status";
+
+export default function AnalysisPage() {
+  return <ProcessingStatus />;
+}
@@ -0,0 +1,16 @@
+import { WizardProvider } from "@/components/wizard-provider";
+import { WizardShell } from "@/components/wizard-shell";
+
+// The wizard pages share one provider, so the session survives moving
+// between them.
+export default function WizardLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <WizardProvider>
+      <WizardShell>{children}</WizardShell>
+    </WizardProvider>
+  );
+}
@@ -0,0 +1,5 @@
+import { ResultStep } from "@/components/result-step";
+
+export default function ResultPage() {
+  return <ResultStep />;
+}
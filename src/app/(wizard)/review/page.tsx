@@ -0,0 +1,5 @@
+import { ReviewStep } from "@/components/review-step";
+
+export default function ReviewPage() {
+  return <ReviewStep />;
+}
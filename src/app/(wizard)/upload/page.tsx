@@ -0,0 +1,5 @@
+import { UploadStep } from "@/components/upload-step";
+
+export default function UploadPage() {
+  return <UploadStep />;
+}
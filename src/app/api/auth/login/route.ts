@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { createSessionToken, SESSION_COOKIE, SESSION_TTL_MS } from "@/lib/auth";
+import { getAuthProvider } from "@/lib/auth-providers";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ message: "Invalid login request" }, { status: 400 });
+  }
+  if (
+    typeof body !== "object" ||
+    body === null ||
+    !("username" in body) ||
+    !("password" in body) ||
+    typeof body.username !== "string" ||
+    typeof body.password !== "string"
+  ) {
+    return Response.json(
+      { message: "Username and password are required" },
+      { status: 400 }
+    );
+  }
+
+  let user;
+  try {
+    user = await getAuthProvider().authenticate({
+      username: body.username,
+      password: body.password,
+    });
+  } catch (err) {
+    console.error("Login error:", err);
+    return Response.json(
+      { message: "Sign-in is unavailable" },
+      { status: 500 }
+    );
+  }
+  if (!user) {
+    return Response.json(
+      { message: "Incorrect username or password" },
+      { status: 401 }
+    );
+  }
+
+  let token: string;
+  try {
+    token = await createSessionToken(user);
+  } catch (err) {
+    // Only a missing `KYC_AUTH_SECRET` in production gets here.
+    console.error("Session signing error:", err);
+    return Response.json(
+      { message: "Sign-in is not configured on this server" },
+      { status: 500 }
+    );
+  }
+
+  const response = NextResponse.json({ user });
+  response.cookies.set(SESSION_COOKIE, token, {
+    path: "/",
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    maxAge: SESSION_TTL_MS / 1000,
+  });
+  return response;
+}
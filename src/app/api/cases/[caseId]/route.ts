@@ -0,0 +1,24 @@
+import { proxyToUpstream } from "@/lib/proxy";
+
+export const dynamic = "force-dynamic";
+
+interface CaseRouteContext {
+  params: Promise<{ caseId: string }>;
+}
+
+async function proxyCase(request: Request, { params }: CaseRouteContext) {
+  const { caseId } = await params;
+  return proxyToUpstream(request, `/cases/${encodeURIComponent(caseId)}`);
+}
+
+export function GET(request: Request, context: CaseRouteContext) {
+  return proxyCase(request, context);
+}
+
+export function PUT(request: Request, context: CaseRouteContext) {
+  return proxyCase(request, context);
+}
+
+export function DELETE(request: Request, context: CaseRouteContext) {
+  return proxyCase(request, context);
+}
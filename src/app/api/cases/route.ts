@@ -0,0 +1,7 @@
+import { proxyToUpstream } from "@/lib/proxy";
+
+export const dynamic = "force-dynamic";
+
+export function GET(request: Request) {
+  return proxyToUpstream(request, "/cases");
+}
@@ -0,0 +1,42 @@
+import { ROLE_HEADER, ROLES, USER_HEADER, type Role } from "@/lib/auth";
+import { proxyToUpstream } from "@/lib/proxy";
+import { decisionSubmissionError } from "@/lib/review-decision";
+import { decisionRequestSchema } from "@/lib/schemas";
+
+export const dynamic = "force-dynamic";
+
+// The middleware has already required the `decide` permission and set the
+// identity headers from the session. Approvals and four-eyes confirmations
+// are checked here too, so a request made outside the decision panel cannot
+// skip them.
+export async function POST(request: Request) {
+  const username = request.headers.get(USER_HEADER);
+  const role = request.headers.get(ROLE_HEADER) as Role | null;
+  if (!username || !role || !ROLES.includes(role)) {
+    return Response.json({ message: "Sign in to continue" }, { status: 401 });
+  }
+
+  const body = await request.text();
+  let parsed;
+  try {
+    parsed = decisionRequestSchema.safeParse(JSON.parse(body));
+  } catch {
+    parsed = null;
+  }
+  if (!parsed?.success) {
+    return Response.json(
+      { message: "Invalid decision request" },
+      { status: 400 }
+    );
+  }
+
+  const error = decisionSubmissionError(parsed.data.decision, {
+    username,
+    role,
+  });
+  if (error) {
+    return Response.json({ message: error }, { status: 403 });
+  }
+
+  return proxyToUpstream(new Request(request, { body }), "/decisions");
+}
@@ -0,0 +1,11 @@
+import { proxyToUpstream } from "@/lib/proxy";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+  return proxyToUpstream(request, `/jobs/${encodeURIComponent(jobId)}`);
+}
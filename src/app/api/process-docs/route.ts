@@ -0,0 +1,7 @@
+import { proxyToUpstream } from "@/lib/proxy";
+
+export const dynamic = "force-dynamic";
+
+export function POST(request: Request) {
+  return proxyToUpstream(request, "/process_docs");
+}
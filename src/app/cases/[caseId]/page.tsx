@@ -0,0 +1,11 @@
+import { redirect } from "next/navigation";
+import { wizardHref } from "@/lib/wizard";
+
+export default async function CasePage({
+  params,
+}: {
+  params: Promise<{ caseId: string }>;
+}) {
+  const { caseId } = await params;
+  redirect(wizardHref("result", { caseId }));
+}
@@ -0,0 +1,5 @@
+import { CaseHistory } from "@/components/case-history";
+
+export default function CasesPage() {
+  return <CaseHistory />;
+}
@@ -0,0 +1,12 @@
+import { redirect } from "next/navigation";
+import { wizardHref } from "@/lib/wizard";
+
+// Older job links; the wizard moves on to the result if the job has one.
+export default async function KycJobPage({
+  params,
+}: {
+  params: Promise<{ jobId: string }>;
+}) {
+  const { jobId } = await params;
+  redirect(wizardHref("review", { jobId }));
+}
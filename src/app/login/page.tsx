@@ -0,0 +1,10 @@
+import { LoginForm } from "@/components/login-form";
+
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ next?: string }>;
+}) {
+  const { next } = await searchParams;
+  return <LoginForm next={next} />;
+}
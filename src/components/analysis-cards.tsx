@@ -0,0 +1,212 @@
+import type { ReactNode } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { bandTextClass } from "@/components/risk-band";
+import {
+  analysisSections,
+  highestRiskSection,
+  outcomeTone,
+  toAnalysisSection,
+  type AnalysisAccent,
+  type AnalysisSection,
+  type AnalysisTone,
+} from "@/lib/analysis-sections";
+import { bandForAction } from "@/lib/risk-policy";
+import type {
+  ComplianceCheck,
+  FraudDetection,
+  KYCResult,
+  RiskAssessment,
+} from "@/lib/schemas";
+
+const TONE_CLASSES: Record<AnalysisTone, string> = {
+  pass: "text-green-600",
+  fail: "text-red-600",
+};
+
+const ACCENT_CLASSES: Record<
+  AnalysisAccent,
+  { header: string; title: string }
+> = {
+  green: { header: "bg-green-50", title: "text-green-800" },
+  yellow: { header: "bg-yellow-50", title: "text-yellow-800" },
+  blue: { header: "bg-blue-50", title: "text-blue-800" },
+  gray: { header: "bg-gray-50", title: "text-gray-800" },
+};
+
+function passClass(passed: boolean): string {
+  return TONE_CLASSES[passed ? "pass" : "fail"];
+}
+
+function AnalysisRow({
+  label,
+  className,
+  children,
+}: {
+  label: string;
+  className: string;
+  children: ReactNode;
+}) {
+  return (
+    <div className="flex justify-between">
+      <span className="text-sm font-medium text-gray-600">{label}:</span>
+      <span className={`text-sm font-semibold ${className}`}>{children}</span>
+    </div>
+  );
+}
+
+// One analysis agent's block, known or not: its verdict, score or status, and
+// the analysis text, each shown only if the block has one.
+export function AnalysisSectionCard({ section }: { section: AnalysisSection }) {
+  const accent = ACCENT_CLASSES[section.accent];
+
+  return (
+    <Card className="border-none shadow-md">
+      <CardHeader className={accent.header}>
+        <CardTitle className={`text-lg ${accent.title}`}>
+          {section.title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-4 space-y-4">
+        {section.verdict && (
+          <AnalysisRow
+            label="Result"
+            className={TONE_CLASSES[outcomeTone(section.verdict)]}
+          >
+            {section.verdict}
+          </AnalysisRow>
+        )}
+        {section.score && (
+          <AnalysisRow
+            label={section.score.label}
+            className={bandTextClass(section.score.band)}
+          >
+            {section.score.value}/100 ({section.score.band.label})
+          </AnalysisRow>
+        )}
+        {section.status && (
+          <AnalysisRow
+            label={section.status.label}
+            className={TONE_CLASSES[outcomeTone(section.status.value)]}
+          >
+            {section.status.value}
+          </AnalysisRow>
+        )}
+        {section.analysis && (
+          <div>
+            <p className="text-sm font-medium text-gray-600 mb-2">Analysis:</p>
+            <p className="text-sm text-gray-700 whitespace-pre-line">
+              {section.analysis}
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Every analysis section in the result, including ones from agents added to
+// the backend since.
+export function AnalysisSectionCards({ result }: { result: KYCResult }) {
+  const sections = analysisSections(result);
+  if (sections.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {sections.map((section) => (
+        <AnalysisSectionCard key={section.key} section={section} />
+      ))}
+    </div>
+  );
+}
+
+// The known agents' cards, kept for callers that render one block on its own.
+// They go through the registry like any other section.
+export function FraudDetectionCard({ fraud }: { fraud: FraudDetection }) {
+  return (
+    <AnalysisSectionCard section={toAnalysisSection("FraudDetection", fraud)} />
+  );
+}
+
+export function RiskAssessmentCard({ risk }: { risk: RiskAssessment }) {
+  return (
+    <AnalysisSectionCard section={toAnalysisSection("RiskAssessment", risk)} />
+  );
+}
+
+export function ComplianceCheckCard({
+  compliance,
+}: {
+  compliance: ComplianceCheck;
+}) {
+  return (
+    <AnalysisSectionCard
+      section={toAnalysisSection("ComplianceCheck", compliance)}
+    />
+  );
+}
+
+// The backend's verdict next to what the risk policy makes of the highest
+// score.
+export function VerificationOverviewCard({ result }: { result: KYCResult }) {
+  const summary = result.kyc_data.verificationSummary;
+  const highest = highestRiskSection(analysisSections(result));
+
+  return (
+    <Card className="bg-gradient-to-br from-blue-50 to-indigo-50 border-none shadow-md">
+      <CardHeader>
+        <CardTitle className="text-xl text-blue-800">
+          Verification Overview
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-gray-600">Status</p>
+          <p
+            className={`text-lg font-semibold ${passClass(
+              result.message.includes("successful")
+            )}`}
+          >
+            {result.message}
+          </p>
+        </div>
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-gray-600">Identity Verified</p>
+          <p
+            className={`text-lg font-semibold ${passClass(
+              summary.identityVerified
+            )}`}
+          >
+            {summary.identityVerified ? "Yes" : "No"}
+          </p>
+        </div>
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-gray-600">
+            Recommended Action
+          </p>
+          <p
+            className={`text-lg font-semibold ${bandTextClass(
+              bandForAction(summary.recommendedAction)
+            )}`}
+          >
+            {summary.recommendedAction}
+          </p>
+        </div>
+        {highest?.score && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-600">Policy Risk</p>
+            <p
+              className={`text-lg font-semibold ${bandTextClass(
+                highest.score.band
+              )}`}
+            >
+              {highest.score.band.label}: {highest.score.band.action}
+            </p>
+            <p className="text-xs text-gray-500">
+              {highest.score.label} {highest.score.value}/100
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
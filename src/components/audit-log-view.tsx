@@ -0,0 +1,218 @@
+"use client";
+
+import { useEffect, useRef, useState, type ChangeEvent } from "react";
+import Link from "next/link";
+import {
+  AlertCircle,
+  Download,
+  FileCheck,
+  History,
+  ShieldCheck,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AUDIT_EVENT_LABELS,
+  buildAuditExport,
+  getAuditLog,
+  parseAuditExport,
+  verifyAuditLog,
+  type AuditEvent,
+  type AuditVerification,
+} from "@/lib/audit-log";
+import { downloadBlob } from "@/lib/report-export";
+import { UserMenu } from "@/components/user-menu";
+
+function detailText(event: AuditEvent): string {
+  return Object.entries(event.details)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(
+      ([key, value]) =>
+        `${key}: ${Array.isArray(value) ? value.join(", ") : String(value)}`
+    )
+    .join("; ");
+}
+
+export function AuditLogView() {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [verification, setVerification] = useState<{
+    source: string;
+    result: AuditVerification;
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setEvents(getAuditLog());
+  }, []);
+
+  const verify = async (source: string, toVerify: AuditEvent[]) => {
+    setError(null);
+    setVerification({ source, result: await verifyAuditLog(toVerify) });
+  };
+
+  const handleExport = () => {
+    const exported = buildAuditExport();
+    downloadBlob(
+      new Blob([JSON.stringify(exported, null, 2)], {
+        type: "application/json",
+      }),
+      `kyc-audit-log-${exported.exportedAt.replace(/[:.]/g, "-")}.json`
+    );
+  };
+
+  const handleVerifyFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      await verify(file.name, parseAuditExport(await file.text()));
+    } catch (err) {
+      console.error("Audit log verify error:", err);
+      setVerification(null);
+      setError(
+        err instanceof Error ? err.message : "Failed to read the audit log."
+      );
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center min-h-screen bg-gray-100 p-6">
+      <Card className="w-full max-w-5xl shadow-xl">
+        <CardHeader className="bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-t-lg">
+          <div className="flex items-start justify-between gap-4">
+            <CardTitle className="text-3xl font-bold">Audit Log</CardTitle>
+            <div className="flex flex-col items-end gap-2">
+              <UserMenu />
+              <Link
+                href="/cases"
+                className="flex items-center gap-1 text-sm text-blue-100 hover:text-white"
+              >
+                <History className="h-4 w-4" />
+                Case History
+              </Link>
+            </div>
+          </div>
+          <CardDescription className="text-blue-100">
+            Every action in this browser, in order, each event hash-chained to
+            the one before
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="p-8 space-y-6">
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              onClick={() => {
+                const current = getAuditLog();
+                setEvents(current);
+                verify("this browser's log", current);
+              }}
+            >
+              <ShieldCheck className="h-4 w-4" />
+              Verify Log
+            </Button>
+            <Button variant="outline" onClick={handleExport}>
+              <Download className="h-4 w-4" />
+              Export
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <FileCheck className="h-4 w-4" />
+              Verify Exported File
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleVerifyFile}
+            />
+          </div>
+
+          {verification &&
+            (verification.result.valid ? (
+              <Alert>
+                <ShieldCheck className="h-5 w-5 text-green-600" />
+                <AlertTitle>Chain intact</AlertTitle>
+                <AlertDescription>
+                  All {verification.result.count} events in{" "}
+                  {verification.source} match their hashes.
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <Alert variant="destructive">
+                <AlertCircle className="h-5 w-5" />
+                <AlertTitle>Chain broken</AlertTitle>
+                <AlertDescription>
+                  Event {verification.result.seq} in {verification.source}:{" "}
+                  {verification.result.reason}.
+                </AlertDescription>
+              </Alert>
+            ))}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-5 w-5" />
+              <AlertTitle>Error</AlertTitle>
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {events.length === 0 ? (
+            <p className="text-center text-sm text-gray-500">
+              No actions have been recorded yet.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="py-2 pr-4 font-medium">#</th>
+                    <th className="py-2 pr-4 font-medium">Time</th>
+                    <th className="py-2 pr-4 font-medium">Actor</th>
+                    <th className="py-2 pr-4 font-medium">Event</th>
+                    <th className="py-2 pr-4 font-medium">Details</th>
+                    <th className="py-2 font-medium">Hash</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...events].reverse().map((event) => (
+                    <tr key={event.seq} className="border-b last:border-b-0">
+                      <td className="py-2 pr-4 text-gray-500">{event.seq}</td>
+                      <td className="py-2 pr-4 whitespace-nowrap text-gray-800">
+                        {new Date(event.at).toLocaleString()}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-800">{event.actor}</td>
+                      <td className="py-2 pr-4 text-gray-800">
+                        {AUDIT_EVENT_LABELS[event.type]}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-700 break-all">
+                        {detailText(event)}
+                      </td>
+                      <td
+                        className="py-2 font-mono text-xs text-gray-500"
+                        title={event.hash}
+                      >
+                        {event.hash.slice(0, 12)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { AlertCircle, Loader2, ScrollText, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useSession } from "@/components/session-provider";
+import { RiskBandBadge, bandTextClass } from "@/components/risk-band";
+import { UserMenu } from "@/components/user-menu";
+import { filterCases, getCaseStore, type CaseFilter } from "@/lib/case-history";
+import { riskBandFor } from "@/lib/risk-policy";
+import type { CaseRecord } from "@/lib/schemas";
+import { wizardHref } from "@/lib/wizard";
+
+const inputClassName =
+  "rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-800 focus:border-blue-500 focus:outline-none";
+
+function parseRisk(value: string): number | undefined {
+  return value.trim() === "" ? undefined : Number(value);
+}
+
+function RiskScoreCell({ score }: { score: number | null }) {
+  if (score === null) {
+    return <td className="py-3 pr-4 text-gray-800">N/A</td>;
+  }
+  const band = riskBandFor(score);
+  return (
+    <td className={`py-3 pr-4 ${bandTextClass(band)}`}>
+      {score} ({band.label})
+    </td>
+  );
+}
+
+export function CaseHistory() {
+  const { user, can } = useSession();
+  const owner = user?.username ?? null;
+  const [cases, setCases] = useState<CaseRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState("");
+  const [outcome, setOutcome] = useState("");
+  const [minRisk, setMinRisk] = useState("");
+  const [maxRisk, setMaxRisk] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  useEffect(() => {
+    getCaseStore(owner)
+      .list()
+      .then(setCases)
+      .catch((err) => {
+        console.error("Case history load error:", err);
+        setError(
+          err instanceof Error ? err.message : "Failed to load case history."
+        );
+      })
+      .finally(() => setIsLoading(false));
+  }, [owner]);
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm("Delete this case from the history?")) return;
+    try {
+      await getCaseStore(owner).remove(id);
+      setCases((prev) => prev.filter((record) => record.id !== id));
+    } catch (err) {
+      console.error("Case delete error:", err);
+      setError(err instanceof Error ? err.message : "Failed to delete case.");
+    }
+  };
+
+  const filter: CaseFilter = {
+    query,
+    outcome: outcome || undefined,
+    minRisk: parseRisk(minRisk),
+    maxRisk: parseRisk(maxRisk),
+    from: from || undefined,
+    to: to || undefined,
+  };
+  const visible = filterCases(cases, filter);
+  const outcomes = [...new Set(cases.map((record) => record.outcome))].sort();
+
+  return (
+    <div className="flex flex-col items-center min-h-screen bg-gray-100 p-6">
+      <Card className="w-full max-w-5xl shadow-xl">
+        <CardHeader className="bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-t-lg">
+          <div className="flex items-start justify-between gap-4">
+            <CardTitle className="text-3xl font-bold">Case History</CardTitle>
+            <div className="flex flex-col items-end gap-2">
+              <UserMenu />
+              <div className="flex items-center gap-4">
+                {can("view_audit_log") && (
+                  <Link
+                    href="/audit"
+                    className="flex items-center gap-1 text-sm text-blue-100 hover:text-white"
+                  >
+                    <ScrollText className="h-4 w-4" />
+                    Audit Log
+                  </Link>
+                )}
+                <Link
+                  href={wizardHref("upload", null)}
+                  className="flex items-center gap-1 text-sm text-blue-100 hover:text-white"
+                >
+                  <Upload className="h-4 w-4" />
+                  New Verification
+                </Link>
+              </div>
+            </div>
+          </div>
+          <CardDescription className="text-blue-100">
+            Completed verifications, newest first
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="p-8 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+            <label className="flex flex-col gap-1 md:col-span-3">
+              <span className="font-medium text-gray-600">Search</span>
+              <input
+                className={inputClassName}
+                placeholder="Case ID, filename or name"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="font-medium text-gray-600">Outcome</span>
+              <select
+                className={inputClassName}
+                value={outcome}
+                onChange={(e) => setOutcome(e.target.value)}
+              >
+                <option value="">All outcomes</option>
+                {outcomes.map((value) => (
+                  <option key={value} value={value}>
+                    {value}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div className="flex flex-col gap-1">
+              <span className="font-medium text-gray-600">
+                Risk score (0–100)
+              </span>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  className={`${inputClassName} w-full`}
+                  placeholder="Min"
+                  value={minRisk}
+                  onChange={(e) => setMinRisk(e.target.value)}
+                  aria-label="Minimum risk score"
+                />
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  className={`${inputClassName} w-full`}
+                  placeholder="Max"
+                  value={maxRisk}
+                  onChange={(e) => setMaxRisk(e.target.value)}
+                  aria-label="Maximum risk score"
+                />
+              </div>
+            </div>
+            <div className="flex flex-col gap-1">
+              <span className="font-medium text-gray-600">Completed</span>
+              <div className="flex items-center gap-2">
+                <input
+                  type="date"
+                  className={`${inputClassName} w-full`}
+                  value={from}
+                  onChange={(e) => setFrom(e.target.value)}
+                  aria-label="Completed from"
+                />
+                <input
+                  type="date"
+                  className={`${inputClassName} w-full`}
+                  value={to}
+                  onChange={(e) => setTo(e.target.value)}
+                  aria-label="Completed to"
+                />
+              </div>
+            </div>
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-5 w-5" />
+              <AlertTitle>Error</AlertTitle>
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {isLoading ? (
+            <Loader2 className="mx-auto h-8 w-8 animate-spin text-blue-600" />
+          ) : visible.length === 0 ? (
+            <p className="text-center text-sm text-gray-500">
+              {cases.length === 0
+                ? "No verifications have been completed yet."
+                : "No cases match these filters."}
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="py-2 pr-4 font-medium">Completed</th>
+                    <th className="py-2 pr-4 font-medium">Documents</th>
+                    <th className="py-2 pr-4 font-medium">Outcome</th>
+                    <th className="py-2 pr-4 font-medium">Risk Score</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {visible.map((record) => (
+                    <tr key={record.id} className="border-b last:border-b-0">
+                      <td className="py-3 pr-4 whitespace-nowrap text-gray-800">
+                        {new Date(record.completedAt).toLocaleString()}
+                      </td>
+                      <td className="py-3 pr-4 text-gray-700">
+                        {record.files.map((file) => file.filename).join(", ")}
+                      </td>
+                      <td className="py-3 pr-4">
+                        <RiskBandBadge band={null}>
+                          {record.outcome}
+                        </RiskBandBadge>
+                      </td>
+                      <RiskScoreCell score={record.riskScore} />
+                      <td className="py-3 text-right whitespace-nowrap">
+                        <Button asChild variant="outline" size="sm">
+                          <Link
+                            href={wizardHref("result", { caseId: record.id })}
+                          >
+                            Open
+                          </Link>
+                        </Button>
+                        {can("manage_cases") && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleDelete(record.id)}
+                            aria-label={`Delete case ${record.id}`}
+                          >
+                            <Trash2 className="h-4 w-4 text-red-500" />
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import {
+  CONSISTENCY_FIELD_LABELS,
+  CONSISTENCY_FIELDS,
+  type ConsistencyComparison,
+  type ConsistencyOutcome,
+  type ConsistencyReport,
+} from "@/lib/consistency";
+import { maskField } from "@/lib/pii-masking";
+
+const OUTCOME_STYLES: Record<ConsistencyOutcome, string> = {
+  match: "bg-green-100 text-green-800",
+  partial: "bg-amber-100 text-amber-800",
+  mismatch: "bg-red-100 text-red-800",
+};
+
+function findComparison(
+  comparisons: ConsistencyComparison[],
+  a: string,
+  b: string
+): ConsistencyComparison | undefined {
+  return comparisons.find(
+    (comparison) =>
+      (comparison.left.documentId === a && comparison.right.documentId === b) ||
+      (comparison.left.documentId === b && comparison.right.documentId === a)
+  );
+}
+
+// One matrix per compared field, over the documents that carry it. Fields
+// found on fewer than two documents have nothing to compare and are skipped.
+export function ConsistencyMatrix({
+  report,
+  revealed = false,
+}: {
+  report: ConsistencyReport;
+  revealed?: boolean;
+}) {
+  const fields = CONSISTENCY_FIELDS.filter(
+    (field) => report.values[field].length > 1
+  );
+  if (fields.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        Upload at least two documents sharing a name, date of birth or address
+        to compare them.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {fields.map((field) => {
+        const values = report.values[field];
+        const comparisons = report.comparisons.filter(
+          (comparison) => comparison.field === field
+        );
+
+        return (
+          <div key={field}>
+            <h6 className="font-medium text-gray-700 mb-2">
+              {CONSISTENCY_FIELD_LABELS[field]}
+            </h6>
+            <div className="overflow-x-auto">
+              <table className="text-sm border-collapse">
+                <thead>
+                  <tr>
+                    <th />
+                    {values.map((column) => (
+                      <th
+                        key={column.documentId}
+                        className="px-3 py-2 text-left font-medium text-gray-600 max-w-40 truncate"
+                        title={column.filename}
+                      >
+                        {column.filename}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {values.map((row) => (
+                    <tr key={row.documentId} className="border-t">
+                      <th className="px-3 py-2 text-left font-normal align-top">
+                        <span className="block font-medium text-gray-600 max-w-48 truncate">
+                          {row.filename}
+                        </span>
+                        <span className="block text-gray-800 max-w-48 break-words">
+                          {revealed ? row.value : maskField(field, row.value)}
+                        </span>
+                      </th>
+                      {values.map((column) => {
+                        if (column.documentId === row.documentId) {
+                          return (
+                            <td
+                              key={column.documentId}
+                              className="px-3 py-2 text-center text-gray-300"
+                            >
+                              —
+                            </td>
+                          );
+                        }
+                        const comparison = findComparison(
+                          comparisons,
+                          row.documentId,
+                          column.documentId
+                        );
+                        return (
+                          <td key={column.documentId} className="px-3 py-2">
+                            {comparison && (
+                              <span
+                                className={`text-xs px-2 py-0.5 rounded-full capitalize ${
+                                  OUTCOME_STYLES[comparison.outcome]
+                                }`}
+                                title={`${Math.round(
+                                  comparison.similarity * 100
+                                )}% similar`}
+                              >
+                                {comparison.outcome}
+                              </span>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
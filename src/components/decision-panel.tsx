@@ -0,0 +1,263 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, ShieldAlert, UserCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useSession } from "@/components/session-provider";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  confirmDecision,
+  createDecision,
+  DECISION_ACTIONS,
+  DECISION_LABELS,
+  draftErrors,
+  reasonLabel,
+  REASON_CODES,
+  requiresSecondReview,
+} from "@/lib/review-decision";
+import type { DecisionAction, KYCResult, ReviewDecision } from "@/lib/schemas";
+
+const inputClassName =
+  "w-full rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-800 focus:border-blue-500 focus:outline-none";
+
+const ACTION_STYLES: Record<DecisionAction, string> = {
+  approve: "bg-green-100 text-green-800",
+  reject: "bg-red-100 text-red-800",
+  request_documents: "bg-amber-100 text-amber-800",
+  escalate: "bg-purple-100 text-purple-800",
+};
+
+function DecisionSummary({ decision }: { decision: ReviewDecision }) {
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex items-center gap-2">
+        <span
+          className={`text-xs px-3 py-1 rounded-full ${
+            ACTION_STYLES[decision.action]
+          }`}
+        >
+          {DECISION_LABELS[decision.action]}
+        </span>
+        <span className="text-gray-600">
+          by {decision.reviewer} on{" "}
+          {new Date(decision.decidedAt).toLocaleString()}
+        </span>
+      </div>
+      <ul className="list-disc pl-5 text-gray-700">
+        {decision.reasonCodes.map((code) => (
+          <li key={code}>{reasonLabel(decision.action, code)}</li>
+        ))}
+      </ul>
+      {decision.notes && (
+        <p className="text-gray-700 whitespace-pre-line">{decision.notes}</p>
+      )}
+      {decision.confirmedBy && decision.confirmedAt && (
+        <p className="flex items-center gap-1 text-gray-600">
+          <UserCheck className="h-4 w-4 text-green-600" />
+          Confirmed by {decision.confirmedBy} on{" "}
+          {new Date(decision.confirmedAt).toLocaleString()}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// Records the signed-in reviewer's decision on a KYC result. Only roles with
+// `approve` see Approve, and a pending approval can only be confirmed by
+// someone other than the reviewer who made it. `onSubmit` is called with
+// the new or confirmed decision and should reject if it could not be stored.
+export function DecisionPanel({
+  result,
+  decision,
+  onSubmit,
+}: {
+  result: KYCResult;
+  decision: ReviewDecision | null;
+  onSubmit: (decision: ReviewDecision) => Promise<void>;
+}) {
+  const [action, setAction] = useState<DecisionAction | null>(null);
+  const [reasonCodes, setReasonCodes] = useState<string[]>([]);
+  const [notes, setNotes] = useState("");
+  const { user, can } = useSession();
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const selectAction = (next: DecisionAction) => {
+    setAction(next);
+    setReasonCodes([]);
+    setErrors([]);
+  };
+
+  const toggleReason = (code: string) => {
+    setReasonCodes((prev) =>
+      prev.includes(code)
+        ? prev.filter((value) => value !== code)
+        : [...prev, code]
+    );
+  };
+
+  const submit = async (next: ReviewDecision) => {
+    setErrors([]);
+    setIsSubmitting(true);
+    try {
+      await onSubmit(next);
+    } catch (err) {
+      console.error("Decision submit error:", err);
+      setErrors([
+        err instanceof Error ? err.message : "Failed to submit the decision.",
+      ]);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDecide = () => {
+    if (!action) return;
+    const draft = {
+      action,
+      reasonCodes,
+      notes,
+      reviewer: user?.username ?? "",
+    };
+    const problems = draftErrors(draft);
+    if (problems.length > 0) {
+      setErrors(problems);
+      return;
+    }
+    submit(createDecision(draft, result));
+  };
+
+  const handleConfirm = () => {
+    if (!decision) return;
+    try {
+      submit(confirmDecision(decision, user?.username ?? ""));
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : String(err)]);
+    }
+  };
+
+  const { recommendedAction } = result.kyc_data.verificationSummary;
+  const actions = DECISION_ACTIONS.filter(
+    (value) => value !== "approve" || can("approve")
+  );
+  const canConfirm =
+    can("approve") && user !== null && user.username !== decision?.reviewer;
+
+  return (
+    <Card className="border-none shadow-md">
+      <CardHeader>
+        <CardTitle className="text-xl text-gray-800">
+          Reviewer Decision
+        </CardTitle>
+        <CardDescription>
+          The backend recommends: {recommendedAction}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {decision ? (
+          <DecisionSummary decision={decision} />
+        ) : !can("decide") ? (
+          <p className="text-sm text-gray-500">
+            Awaiting a reviewer&apos;s decision.
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {actions.map((value) => (
+                <Button
+                  key={value}
+                  variant={action === value ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => selectAction(value)}
+                >
+                  {DECISION_LABELS[value]}
+                </Button>
+              ))}
+            </div>
+
+            {action && (
+              <>
+                <fieldset className="text-sm space-y-1">
+                  <legend className="font-medium text-gray-600 mb-1">
+                    Reasons (at least one)
+                  </legend>
+                  {REASON_CODES[action].map((reason) => (
+                    <label
+                      key={reason.code}
+                      className="flex items-center gap-2 text-gray-700"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={reasonCodes.includes(reason.code)}
+                        onChange={() => toggleReason(reason.code)}
+                      />
+                      {reason.label}
+                    </label>
+                  ))}
+                </fieldset>
+
+                <label className="flex flex-col gap-1 text-sm">
+                  <span className="font-medium text-gray-600">Notes</span>
+                  <textarea
+                    className={inputClassName}
+                    rows={3}
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                  />
+                </label>
+
+                {requiresSecondReview(action, result) && (
+                  <p className="flex items-center gap-2 text-sm text-amber-700">
+                    <ShieldAlert className="h-4 w-4" />
+                    This is a high-risk approval. A second reviewer must confirm
+                    it before it is final.
+                  </p>
+                )}
+
+                <Button onClick={handleDecide} disabled={isSubmitting}>
+                  {isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Submit Decision
+                </Button>
+              </>
+            )}
+          </>
+        )}
+
+        {decision?.status === "pending_confirmation" && (
+          <div className="space-y-2 border-t pt-4">
+            <p className="flex items-center gap-2 text-sm text-amber-700">
+              <ShieldAlert className="h-4 w-4" />
+              Awaiting confirmation by a second reviewer.
+            </p>
+            {canConfirm && (
+              <Button onClick={handleConfirm} disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+                Confirm Approval
+              </Button>
+            )}
+          </div>
+        )}
+
+        {errors.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTitle>Decision not recorded</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc pl-5">
+                {errors.map((message) => (
+                  <li key={message}>{message}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,204 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, Trash2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { flattenDocumentData, pathLabel } from "@/lib/document-data";
+import {
+  coerceInput,
+  diffDocumentData,
+  formatInputValue,
+  removeValueAtPath,
+  setValueAtPath,
+} from "@/lib/document-edits";
+import { maskField } from "@/lib/pii-masking";
+import type { DocumentData, DocumentValue } from "@/lib/schemas";
+
+const inputClassName =
+  "flex-1 rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-800 focus:border-blue-500 focus:outline-none";
+
+// Structured form over every leaf of a document's extracted data. `original`
+// is the data as extracted, used to mark and revert reviewer edits. Personal
+// data stays masked and read-only until `revealed`.
+export function DocumentEditor({
+  data,
+  original,
+  revealed = false,
+  onChange,
+  onSelectField,
+}: {
+  data: DocumentData;
+  original: DocumentData;
+  revealed?: boolean;
+  onChange: (data: DocumentData) => void;
+  onSelectField?: (path: string) => void;
+}) {
+  const [newPath, setNewPath] = useState("");
+  const [newValue, setNewValue] = useState("");
+  // Text being typed into a field, by path. It is coerced to the field's type
+  // only once committed, so partial input such as "1." or "-" survives.
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const entries = flattenDocumentData(data);
+  const originalEntries = new Map(
+    flattenDocumentData(original).map((entry) => [entry.path, entry.value])
+  );
+  const changes = new Map(
+    diffDocumentData(original, data).map((change) => [change.path, change])
+  );
+  const removed = [...changes.values()].filter(
+    (change) => change.kind === "removed"
+  );
+
+  const display = (path: string, value: DocumentValue | undefined) =>
+    revealed
+      ? formatInputValue(value)
+      : maskField(path, formatInputValue(value));
+
+  const commitDraft = (path: string, previous: DocumentValue | undefined) => {
+    const draft = drafts[path];
+    if (draft === undefined) return;
+    setDrafts((prev) => {
+      const next = { ...prev };
+      delete next[path];
+      return next;
+    });
+    onChange(setValueAtPath(data, path, coerceInput(draft, previous)));
+  };
+
+  const handleAdd = () => {
+    const path = newPath.trim().replace(/\s+/g, "_");
+    if (!path) return;
+    onChange(setValueAtPath(data, path, newValue));
+    setNewPath("");
+    setNewValue("");
+  };
+
+  return (
+    <div className="space-y-2 text-sm">
+      {entries.map((entry) => {
+        const change = changes.get(entry.path);
+        // Masked text must not be edited, or saving would store the mask.
+        const locked =
+          !revealed &&
+          display(entry.path, entry.value) !== formatInputValue(entry.value);
+        return (
+          <div key={entry.path} className="flex items-center gap-2">
+            <label
+              htmlFor={`field-${entry.path}`}
+              className="font-medium text-gray-600 w-48 shrink-0 capitalize truncate"
+              title={entry.path}
+            >
+              {pathLabel(entry.path)}
+            </label>
+            <input
+              id={`field-${entry.path}`}
+              className={`${inputClassName} ${locked ? "bg-gray-50" : ""}`}
+              value={drafts[entry.path] ?? display(entry.path, entry.value)}
+              readOnly={locked}
+              title={locked ? "Reveal personal data to edit" : undefined}
+              onFocus={() => onSelectField?.(entry.path)}
+              onChange={(e) =>
+                setDrafts((prev) => ({ ...prev, [entry.path]: e.target.value }))
+              }
+              onBlur={() => commitDraft(entry.path, entry.value)}
+              onKeyDown={(e) =>
+                e.key === "Enter" && commitDraft(entry.path, entry.value)
+              }
+            />
+            {change && (
+              <span
+                className="text-xs bg-purple-100 text-purple-800 px-2 py-0.5 rounded-full"
+                title={
+                  change.kind === "changed"
+                    ? `Extracted: ${display(entry.path, change.before)}`
+                    : undefined
+                }
+              >
+                {change.kind === "added" ? "Added" : "Edited"} by reviewer
+              </span>
+            )}
+            {change?.kind === "changed" && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() =>
+                  onChange(
+                    setValueAtPath(
+                      data,
+                      entry.path,
+                      originalEntries.get(entry.path) ?? null
+                    )
+                  )
+                }
+                aria-label={`Revert ${pathLabel(entry.path)}`}
+              >
+                <Undo2 className="h-4 w-4" />
+              </Button>
+            )}
+            {!locked && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange(removeValueAtPath(data, entry.path))}
+                aria-label={`Remove ${pathLabel(entry.path)}`}
+              >
+                <Trash2 className="h-4 w-4 text-red-500" />
+              </Button>
+            )}
+          </div>
+        );
+      })}
+
+      {removed.map((change) => (
+        <div
+          key={change.path}
+          className="flex items-center gap-2 text-gray-400 line-through"
+        >
+          <span className="w-48 shrink-0 capitalize truncate">
+            {pathLabel(change.path)}
+          </span>
+          <span className="flex-1">{display(change.path, change.before)}</span>
+          <span className="text-xs bg-purple-100 text-purple-800 px-2 py-0.5 rounded-full no-underline">
+            Removed by reviewer
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() =>
+              onChange(setValueAtPath(data, change.path, change.before ?? null))
+            }
+            aria-label={`Restore ${pathLabel(change.path)}`}
+          >
+            <Undo2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2 pt-2 border-t">
+        <input
+          className={`${inputClassName} max-w-48`}
+          placeholder="New field (e.g. address.pincode)"
+          value={newPath}
+          onChange={(e) => setNewPath(e.target.value)}
+        />
+        <input
+          className={inputClassName}
+          placeholder="Value"
+          value={newValue}
+          onChange={(e) => setNewValue(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleAdd}
+          disabled={!newPath.trim()}
+        >
+          <Plus className="h-4 w-4" />
+          Add field
+        </Button>
+      </div>
+    </div>
+  );
+}
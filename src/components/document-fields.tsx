@@ -0,0 +1,131 @@
+import {
+  DOCUMENT_TYPE_IDS,
+  DOCUMENT_TYPES,
+  formatFieldValue,
+  getDocumentType,
+  resolveFields,
+  type DocumentTypeId,
+} from "@/lib/document-types";
+import { ID_VALIDATORS, validateDocumentIds } from "@/lib/id-validators";
+import { maskField } from "@/lib/pii-masking";
+import type { DocumentData } from "@/lib/schemas";
+
+export function DocumentTypeBadge({ type }: { type: string }) {
+  return (
+    <span className="text-xs bg-blue-100 text-blue-800 px-3 py-1 rounded-full">
+      {getDocumentType(type).label}
+    </span>
+  );
+}
+
+export function DocumentTypeSelect({
+  value,
+  onChange,
+}: {
+  value: string;
+  onChange: (type: DocumentTypeId) => void;
+}) {
+  return (
+    <select
+      value={getDocumentType(value).id}
+      onChange={(e) => onChange(e.target.value as DocumentTypeId)}
+      className="text-xs bg-blue-100 text-blue-800 px-3 py-1 rounded-full border-none"
+      aria-label="Document type"
+    >
+      {DOCUMENT_TYPE_IDS.map((id) => (
+        <option key={id} value={id}>
+          {DOCUMENT_TYPES[id].label}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+// Purpose-built layout for a recognised document type: its labelled fields in
+// registry order, with personal data masked unless `revealed`. With
+// `onSelectField` each field becomes clickable, reporting the data path it was
+// resolved from.
+export function DocumentFields({
+  type,
+  data,
+  revealed = false,
+  selectedPath,
+  onSelectField,
+}: {
+  type: string;
+  data: DocumentData;
+  revealed?: boolean;
+  selectedPath?: string | null;
+  onSelectField?: (path: string) => void;
+}) {
+  const fields = resolveFields(getDocumentType(type), data);
+  if (fields.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2 text-sm">
+      {fields.map((field) => {
+        const content = (
+          <>
+            <span className="font-medium text-gray-600 w-40 shrink-0">
+              {field.spec.label}:
+            </span>
+            <span className="text-gray-800 break-words">
+              {revealed
+                ? formatFieldValue(field)
+                : maskField(field.path, formatFieldValue(field))}
+            </span>
+          </>
+        );
+
+        return onSelectField ? (
+          <button
+            key={field.spec.id}
+            type="button"
+            onClick={() => onSelectField(field.path)}
+            className={`flex text-left rounded px-1 -mx-1 hover:bg-amber-50 ${
+              selectedPath === field.path ? "bg-amber-100" : ""
+            }`}
+          >
+            {content}
+          </button>
+        ) : (
+          <div key={field.spec.id} className="flex">
+            {content}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// Format and checksum results for every identifier found in the data.
+export function IdValidationList({ data }: { data: DocumentData }) {
+  const validations = validateDocumentIds(data);
+  if (validations.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="mt-4 space-y-1 text-sm">
+      {validations.map((validation) => (
+        <li key={validation.path} className="flex items-center gap-2">
+          <span
+            className={`text-xs px-2 py-0.5 rounded-full ${
+              validation.valid
+                ? "bg-green-100 text-green-800"
+                : "bg-red-100 text-red-800"
+            }`}
+          >
+            {validation.valid ? "Valid" : "Invalid"}
+          </span>
+          <span className="font-medium text-gray-600">
+            {ID_VALIDATORS[validation.kind].label}
+          </span>
+          <span className="text-gray-600">{validation.detail}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,270 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Loader2,
+  RotateCw,
+  ZoomIn,
+  ZoomOut,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { BoundingBox } from "@/lib/schemas";
+
+type PreviewKind = "pdf" | "image" | "text" | "unsupported";
+
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 3;
+const ZOOM_STEP = 0.25;
+// Rendering PDFs above CSS resolution keeps text legible when zoomed.
+const PDF_RENDER_SCALE = 1.5;
+
+function previewKind(file: File): PreviewKind {
+  const name = file.name.toLowerCase();
+  if (file.type === "application/pdf" || name.endsWith(".pdf")) return "pdf";
+  if (file.type.startsWith("image/") || /\.(jpe?g|png)$/.test(name)) {
+    return "image";
+  }
+  if (file.type.startsWith("text/") || name.endsWith(".txt")) return "text";
+  return "unsupported";
+}
+
+async function loadPdf(file: File): Promise<PDFDocumentProxy> {
+  const pdfjs = await import("pdfjs-dist");
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+    "pdfjs-dist/build/pdf.worker.min.mjs",
+    import.meta.url
+  ).toString();
+  return pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+}
+
+function Highlight({ box }: { box: BoundingBox }) {
+  return (
+    <div
+      className="absolute border-2 border-amber-500 bg-amber-300/30 rounded-sm pointer-events-none"
+      style={{
+        left: `${box.x * 100}%`,
+        top: `${box.y * 100}%`,
+        width: `${box.width * 100}%`,
+        height: `${box.height * 100}%`,
+      }}
+    />
+  );
+}
+
+function PdfPage({
+  pdf,
+  pageNumber,
+}: {
+  pdf: PDFDocumentProxy;
+  pageNumber: number;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let renderTask: ReturnType<
+      Awaited<ReturnType<PDFDocumentProxy["getPage"]>>["render"]
+    > | null = null;
+
+    pdf.getPage(pageNumber).then((page) => {
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+
+      const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      renderTask = page.render({ canvas, viewport });
+      renderTask.promise.catch((err) => {
+        if (err?.name !== "RenderingCancelledException") {
+          console.error("PDF render error:", err);
+        }
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, pageNumber]);
+
+  return <canvas ref={canvasRef} className="block w-full h-auto" />;
+}
+
+// Viewer for an uploaded file: PDF pages, images and plain text, with zoom,
+// rotation and page navigation. `highlight` outlines a field's source region.
+export function DocumentPreview({
+  file,
+  highlight,
+}: {
+  file?: File;
+  highlight?: BoundingBox | null;
+}) {
+  const [zoom, setZoom] = useState(1);
+  const [rotation, setRotation] = useState(0);
+  const [page, setPage] = useState(1);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [text, setText] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const kind = file ? previewKind(file) : "unsupported";
+  const pageCount = pdf?.numPages ?? 1;
+
+  useEffect(() => {
+    if (!file) return;
+
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    let loadedPdf: PDFDocumentProxy | null = null;
+    setPage(1);
+    setLoadError(null);
+
+    if (kind === "image") {
+      objectUrl = URL.createObjectURL(file);
+      setImageUrl(objectUrl);
+    } else if (kind === "text") {
+      file.text().then((content) => !cancelled && setText(content));
+    } else if (kind === "pdf") {
+      setIsLoading(true);
+      loadPdf(file)
+        .then((doc) => {
+          loadedPdf = doc;
+          if (cancelled) {
+            doc.destroy();
+          } else {
+            setPdf(doc);
+          }
+        })
+        .catch((err) => {
+          console.error("PDF load error:", err);
+          if (!cancelled) setLoadError("This PDF could not be displayed.");
+        })
+        .finally(() => !cancelled && setIsLoading(false));
+    }
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      loadedPdf?.destroy();
+      setPdf(null);
+      setImageUrl(null);
+      setText(null);
+    };
+  }, [file, kind]);
+
+  useEffect(() => {
+    if (highlight && highlight.page <= pageCount) {
+      setPage(highlight.page);
+    }
+  }, [highlight, pageCount]);
+
+  if (!file) {
+    return (
+      <div className="flex h-full min-h-64 items-center justify-center rounded-lg bg-gray-50 p-6 text-sm text-gray-500">
+        The original file is not available in this session.
+      </div>
+    );
+  }
+
+  const pageHighlight = highlight && highlight.page === page ? highlight : null;
+
+  return (
+    <div className="flex flex-col rounded-lg border bg-gray-50">
+      <div className="flex items-center gap-1 border-b p-2">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setZoom((z) => Math.max(MIN_ZOOM, z - ZOOM_STEP))}
+          disabled={zoom <= MIN_ZOOM}
+          aria-label="Zoom out"
+        >
+          <ZoomOut className="h-4 w-4" />
+        </Button>
+        <span className="w-12 text-center text-xs text-gray-600">
+          {Math.round(zoom * 100)}%
+        </span>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setZoom((z) => Math.min(MAX_ZOOM, z + ZOOM_STEP))}
+          disabled={zoom >= MAX_ZOOM}
+          aria-label="Zoom in"
+        >
+          <ZoomIn className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setRotation((r) => (r + 90) % 360)}
+          aria-label="Rotate"
+        >
+          <RotateCw className="h-4 w-4" />
+        </Button>
+        {kind === "pdf" && (
+          <div className="ml-auto flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setPage((p) => Math.max(1, p - 1))}
+              disabled={page <= 1}
+              aria-label="Previous page"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-xs text-gray-600">
+              Page {page} of {pageCount}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setPage((p) => Math.min(pageCount, p + 1))}
+              disabled={page >= pageCount}
+              aria-label="Next page"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="max-h-[70vh] overflow-auto p-4">
+        {isLoading && (
+          <Loader2 className="mx-auto h-8 w-8 animate-spin text-blue-600" />
+        )}
+        {loadError && <p className="text-sm text-red-600">{loadError}</p>}
+        {kind === "unsupported" && (
+          <p className="text-sm text-gray-500">
+            Preview is not available for this file type.
+          </p>
+        )}
+
+        <div
+          className="relative mx-auto origin-center transition-transform"
+          style={{
+            width: `${zoom * 100}%`,
+            transform: `rotate(${rotation}deg)`,
+          }}
+        >
+          {kind === "pdf" && pdf && <PdfPage pdf={pdf} pageNumber={page} />}
+          {kind === "image" && imageUrl && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={imageUrl}
+              alt={file.name}
+              className="block w-full h-auto"
+            />
+          )}
+          {kind === "text" && text !== null && (
+            <pre className="whitespace-pre-wrap text-xs">{text}</pre>
+          )}
+          {pageHighlight && kind !== "text" && (
+            <Highlight box={pageHighlight} />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
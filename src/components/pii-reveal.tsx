@@ -0,0 +1,83 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Eye, EyeOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useSession } from "@/components/session-provider";
+import { PII_REVEAL_MS, recordReveal } from "@/lib/pii-masking";
+
+// Tracks which views (by scope, e.g. a document id) are showing unmasked PII.
+// Every reveal is logged and expires on its own after PII_REVEAL_MS. Roles
+// without the `reveal_pii` permission can't reveal at all.
+export function usePiiReveal() {
+  const { can } = useSession();
+  const canReveal = can("reveal_pii");
+  const [revealed, setRevealed] = useState<Record<string, boolean>>({});
+  const timers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => pending.forEach((timer) => clearTimeout(timer));
+  }, []);
+
+  const hide = useCallback((scope: string) => {
+    clearTimeout(timers.current.get(scope));
+    timers.current.delete(scope);
+    setRevealed((prev) => ({ ...prev, [scope]: false }));
+  }, []);
+
+  const reveal = useCallback(
+    (scope: string) => {
+      if (!canReveal) return;
+      recordReveal(scope);
+      clearTimeout(timers.current.get(scope));
+      timers.current.set(
+        scope,
+        setTimeout(() => hide(scope), PII_REVEAL_MS)
+      );
+      setRevealed((prev) => ({ ...prev, [scope]: true }));
+    },
+    [canReveal, hide]
+  );
+
+  const isRevealed = useCallback(
+    (scope: string) => Boolean(revealed[scope]),
+    [revealed]
+  );
+
+  return { isRevealed, reveal, hide };
+}
+
+export function RevealButton({
+  revealed,
+  onReveal,
+  onHide,
+}: {
+  revealed: boolean;
+  onReveal: () => void;
+  onHide: () => void;
+}) {
+  const { can } = useSession();
+  const allowed = can("reveal_pii");
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={revealed ? onHide : onReveal}
+      disabled={!revealed && !allowed}
+      title={
+        revealed
+          ? undefined
+          : !allowed
+          ? "Your role cannot reveal personal data"
+          : `Shows personal data for ${
+              PII_REVEAL_MS / 1000
+            } seconds. Reveals are logged.`
+      }
+    >
+      {revealed ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+      {revealed ? "Mask Personal Data" : "Reveal Personal Data"}
+    </Button>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { useWizard } from "@/components/wizard-provider";
+import { formatProgress } from "@/lib/progress-stream";
+import type { ProgressUpdate } from "@/lib/kyc-api";
+import type { WorkflowStep } from "@/lib/workflow";
+
+// Streamed progress names the current stage; uploads always show their own.
+export function processingTitle(
+  step: WorkflowStep,
+  detail: ProgressUpdate | null
+): string {
+  if (detail && step !== "uploading") {
+    return formatProgress(detail);
+  }
+
+  switch (step) {
+    case "uploading":
+      return "Uploading your documents...";
+    case "extracting":
+      return "Processing your documents...";
+    case "verifying":
+      return "Performing KYC analysis...";
+    case "loading":
+      return "Restoring verification session...";
+    default:
+      return "Processing...";
+  }
+}
+
+// Extraction, KYC analysis and session restores. The first two can be
+// cancelled, which returns to the step before them.
+export function ProcessingStatus() {
+  const { workflow, progress, processingDetail, cancelProcessing } =
+    useWizard();
+
+  return (
+    <CardContent className="p-8">
+      <div className="py-16 space-y-8 text-center">
+        <Loader2 className="h-16 w-16 animate-spin mx-auto text-blue-600" />
+        <h3 className="text-xl font-semibold text-gray-900">
+          {processingTitle(workflow.step, processingDetail)}
+        </h3>
+        <div className="w-full max-w-md mx-auto">
+          <Progress value={progress} className="h-3 rounded-full" />
+          <p className="mt-3 text-sm text-gray-500">
+            {workflow.step === "verifying"
+              ? `Analyzing KYC data: ${progress}%`
+              : `Analyzing documents: ${progress}%`}
+          </p>
+        </div>
+        {workflow.step !== "loading" && (
+          <Button variant="outline" onClick={cancelProcessing}>
+            <X className="mr-2 h-4 w-4" />
+            Cancel
+          </Button>
+        )}
+      </div>
+    </CardContent>
+  );
+}
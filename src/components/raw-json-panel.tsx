@@ -0,0 +1,65 @@
+"use client";
+
+import { useState, type ReactNode } from "react";
+import { Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { audit } from "@/lib/audit-log";
+import { maskJson } from "@/lib/pii-masking";
+
+// A show/hide toggle for the raw JSON behind a view. The JSON is masked unless
+// the view is revealed, and copies are always masked, even while revealed.
+export function RawJsonPanel({
+  view,
+  value,
+  label,
+  revealed,
+  caseId,
+  actions,
+}: {
+  view: string;
+  value: unknown;
+  label: string;
+  revealed: boolean;
+  caseId: string | null;
+  actions?: ReactNode;
+}) {
+  const [shown, setShown] = useState(false);
+
+  const toggle = () => {
+    audit("json_toggle", { view, shown: !shown });
+    setShown(!shown);
+  };
+
+  const copyMasked = () => {
+    navigator.clipboard
+      .writeText(JSON.stringify(maskJson(value), null, 2))
+      .then(() => audit("export", { format: "clipboard", caseId }))
+      .catch((err) => console.error("Copy failed:", err));
+  };
+
+  return (
+    <div className="mt-4">
+      <div className="flex gap-2 mb-2">
+        <Button variant="outline" size="sm" onClick={toggle}>
+          {shown ? `Hide ${label}` : `Show ${label}`}
+        </Button>
+        {shown && (
+          <>
+            {actions}
+            <Button variant="outline" size="sm" onClick={copyMasked}>
+              <Copy className="h-4 w-4" />
+              Copy (masked)
+            </Button>
+          </>
+        )}
+      </div>
+      {shown && (
+        <pre className="bg-gray-900 text-white rounded-lg p-4 overflow-x-auto text-sm font-mono">
+          <code>
+            {JSON.stringify(revealed ? value : maskJson(value), null, 2)}
+          </code>
+        </pre>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { ArrowLeft, Check, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AnalysisSectionCards,
+  VerificationOverviewCard,
+} from "@/components/analysis-cards";
+import { DecisionPanel } from "@/components/decision-panel";
+import { DocumentTypeBadge } from "@/components/document-fields";
+import { RevealButton, usePiiReveal } from "@/components/pii-reveal";
+import { RawJsonPanel } from "@/components/raw-json-panel";
+import { useWizard } from "@/components/wizard-provider";
+import { WorkflowErrorAlert } from "@/components/wizard-shell";
+import { detectDocumentType } from "@/lib/document-types";
+import { REPORT_FORMATS } from "@/lib/report-export";
+import type { KycDocument } from "@/lib/schemas";
+
+// The KYC result, the reviewer's decision on it and the report downloads.
+export function ResultStep() {
+  const { workflow, recordDecision, generateReport, backToReview, reset } =
+    useWizard();
+  const pii = usePiiReveal();
+
+  if (workflow.step !== "result") return null;
+  const { kycResult, decision, caseId } = workflow;
+  const { kyc_data } = kycResult;
+
+  // Normalize documentData to always be an array
+  const documentData = Array.isArray(kyc_data.documentData)
+    ? kyc_data.documentData
+    : kyc_data.documentData
+    ? [kyc_data.documentData]
+    : [];
+
+  return (
+    <>
+      <CardContent className="p-8">
+        <div className="mt-8 space-y-6">
+          <div className="flex items-center space-x-3">
+            <Check className="h-8 w-8 text-green-500" />
+            <h2 className="text-2xl font-semibold text-gray-800">
+              KYC Verification Complete
+            </h2>
+          </div>
+
+          <VerificationOverviewCard result={kycResult} />
+
+          <AnalysisSectionCards result={kycResult} />
+
+          {documentData.length > 0 && (
+            <Card className="border-none shadow-md">
+              <CardHeader>
+                <CardTitle className="text-xl text-gray-800">
+                  Document Details
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {documentData.map((doc: KycDocument, idx: number) => (
+                  <div key={idx} className="border-b pb-4 last:border-b-0">
+                    <div className="flex justify-between items-center mb-2">
+                      <h4 className="text-lg font-medium text-gray-800">
+                        {doc.filename}
+                      </h4>
+                      <DocumentTypeBadge
+                        type={doc.type ?? detectDocumentType(doc.data)}
+                      />
+                    </div>
+                  </div>
+                ))}
+                <RawJsonPanel
+                  view="kycData"
+                  value={kyc_data}
+                  label="Raw KYC Data"
+                  revealed={pii.isRevealed("kycData")}
+                  caseId={caseId}
+                  actions={
+                    <RevealButton
+                      revealed={pii.isRevealed("kycData")}
+                      onReveal={() => pii.reveal("kycData")}
+                      onHide={() => pii.hide("kycData")}
+                    />
+                  }
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          <DecisionPanel
+            result={kycResult}
+            decision={decision}
+            onSubmit={recordDecision}
+          />
+        </div>
+        <WorkflowErrorAlert />
+      </CardContent>
+
+      <CardFooter className="flex justify-between p-6 bg-gray-50 rounded-b-lg">
+        <Button variant="outline" onClick={reset}>
+          Upload New Documents
+        </Button>
+        <Button variant="outline" onClick={backToReview}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Review
+        </Button>
+        {REPORT_FORMATS.map((format) => (
+          <Button
+            key={format}
+            onClick={() => generateReport(format)}
+            className="bg-green-600 hover:bg-green-700"
+          >
+            <Download className="mr-2 h-4 w-4" />
+            Download {format.toUpperCase()}
+          </Button>
+        ))}
+      </CardFooter>
+    </>
+  );
+}
@@ -0,0 +1,354 @@
+"use client";
+
+import { useState, type ReactNode } from "react";
+import { Check, Eye, FileCheck, Pencil } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ConsistencyMatrix } from "@/components/consistency-matrix";
+import { DocumentEditor } from "@/components/document-editor";
+import {
+  DocumentFields,
+  DocumentTypeSelect,
+  IdValidationList,
+} from "@/components/document-fields";
+import { DocumentPreview } from "@/components/document-preview";
+import { RevealButton, usePiiReveal } from "@/components/pii-reveal";
+import { RawJsonPanel } from "@/components/raw-json-panel";
+import { bandTextClass } from "@/components/risk-band";
+import { useSession } from "@/components/session-provider";
+import { useWizard } from "@/components/wizard-provider";
+import { WorkflowErrorAlert } from "@/components/wizard-shell";
+import { checkConsistency } from "@/lib/consistency";
+import { diffDocumentData } from "@/lib/document-edits";
+import { JSON_REPAIR_LABELS } from "@/lib/json-repair";
+import type { RuleSeverity } from "@/lib/pre-check";
+import { bandForAction, bandForLabel } from "@/lib/risk-policy";
+import type { ExtractedData } from "@/lib/kyc-api";
+
+const RULE_SEVERITY_STYLES: Record<RuleSeverity, string> = {
+  pass: "bg-green-100 text-green-800",
+  warn: "bg-amber-100 text-amber-800",
+  fail: "bg-red-100 text-red-800",
+};
+
+function SummaryField({
+  label,
+  className,
+  children,
+}: {
+  label: string;
+  className: string;
+  children: ReactNode;
+}) {
+  return (
+    <div className="flex">
+      <span className="font-medium text-gray-600 w-40">{label}:</span>
+      <span className={`font-semibold ${className}`}>{children}</span>
+    </div>
+  );
+}
+
+// Risk levels and actions are coloured by the risk policy's bands.
+function PreCheckCard({ extractedData }: { extractedData: ExtractedData }) {
+  const summary = extractedData.verificationSummary;
+
+  return (
+    <Card className="bg-gray-50">
+      <CardHeader>
+        <CardTitle className="text-lg text-gray-800">
+          Client Pre-Check
+        </CardTitle>
+        <CardDescription>
+          Automated checks on the extracted data, run in your browser. This is
+          not a verification decision; the KYC analysis makes that.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+          <SummaryField
+            label="Identity Verified"
+            className={
+              summary.identityVerified ? "text-green-600" : "text-red-600"
+            }
+          >
+            {summary.identityVerified ? "Yes" : "No"}
+          </SummaryField>
+          <SummaryField
+            label="Risk Score"
+            className={bandTextClass(bandForLabel(summary.riskScore))}
+          >
+            {summary.riskScore}
+          </SummaryField>
+          <SummaryField
+            label="Recommended Action"
+            className={bandTextClass(bandForAction(summary.recommendedAction))}
+          >
+            {summary.recommendedAction}
+          </SummaryField>
+        </div>
+        <ul className="space-y-1 text-sm border-t pt-4">
+          {summary.rules.map((rule, index) => (
+            <li key={`${rule.id}-${index}`} className="flex items-start gap-2">
+              <span
+                className={`text-xs px-2 py-0.5 rounded-full uppercase shrink-0 ${
+                  RULE_SEVERITY_STYLES[rule.severity]
+                }`}
+              >
+                {rule.severity}
+              </span>
+              <span className="font-medium text-gray-700">{rule.label}</span>
+              <span className="text-gray-600">{rule.detail}</span>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
+
+// The extracted documents, for correcting before the KYC analysis runs.
+export function ReviewStep() {
+  const {
+    workflow,
+    files,
+    changeDocumentType,
+    changeDocumentData,
+    runKyc,
+    reset,
+  } = useWizard();
+  const { can } = useSession();
+  const pii = usePiiReveal();
+  const [editingDocs, setEditingDocs] = useState<Record<string, boolean>>({});
+  const [previewDocs, setPreviewDocs] = useState<Record<string, boolean>>({});
+  const [selectedFields, setSelectedFields] = useState<Record<string, string>>(
+    {}
+  );
+
+  if (workflow.step !== "review") return null;
+  const { extractedData } = workflow;
+
+  const toggleEditing = (id: string) => {
+    setEditingDocs((prev) => ({ ...prev, [id]: !prev[id] }));
+  };
+
+  const togglePreview = (id: string) => {
+    setPreviewDocs((prev) => ({ ...prev, [id]: !prev[id] }));
+  };
+
+  const handleSelectField = (id: string, path: string) => {
+    setSelectedFields((prev) => ({ ...prev, [id]: path }));
+  };
+
+  return (
+    <>
+      <CardContent className="p-8">
+        <div className="space-y-8">
+          <div className="flex items-center space-x-3 text-green-600">
+            <Check className="h-8 w-8" />
+            <h3 className="text-2xl font-semibold">
+              Documents Processed Successfully
+            </h3>
+          </div>
+
+          <div className="space-y-6">
+            <h4 className="font-semibold text-gray-800 text-lg">
+              Document Analysis
+            </h4>
+
+            {extractedData.documents.map((doc) => (
+              <Card key={doc.id} className="border-none shadow-md">
+                <CardHeader>
+                  <div className="flex justify-between items-center">
+                    <h5 className="font-semibold text-gray-800">
+                      {doc.filename}
+                    </h5>
+                    <div className="flex items-center gap-2">
+                      {doc.status !== "processed" && (
+                        <span className="text-xs bg-red-100 text-red-800 px-3 py-1 rounded-full capitalize">
+                          {doc.status}
+                        </span>
+                      )}
+                      {doc.unparsed && (
+                        <span className="text-xs bg-red-100 text-red-800 px-3 py-1 rounded-full">
+                          Unparsed
+                        </span>
+                      )}
+                      {doc.originalData &&
+                        diffDocumentData(doc.originalData, doc.data).length >
+                          0 && (
+                          <span className="text-xs bg-purple-100 text-purple-800 px-3 py-1 rounded-full">
+                            Edited by reviewer
+                          </span>
+                        )}
+                      {doc.repairs && (
+                        <span
+                          className="text-xs bg-amber-100 text-amber-800 px-3 py-1 rounded-full"
+                          title={doc.repairs
+                            .map((repair) => JSON_REPAIR_LABELS[repair])
+                            .join("\n")}
+                        >
+                          Repaired
+                        </span>
+                      )}
+                      <DocumentTypeSelect
+                        value={doc.type}
+                        onChange={(type) => changeDocumentType(doc.id, type)}
+                      />
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {doc.error && (
+                    <p className="text-sm text-red-600">{doc.error}</p>
+                  )}
+                  {doc.status !== "skipped" && doc.status !== "failed" && (
+                    <>
+                      <div
+                        className={
+                          previewDocs[doc.id]
+                            ? "grid grid-cols-1 lg:grid-cols-2 gap-6"
+                            : undefined
+                        }
+                      >
+                        {previewDocs[doc.id] && (
+                          <DocumentPreview
+                            file={
+                              files.find((entry) => entry.id === doc.id)?.file
+                            }
+                            highlight={
+                              doc.boundingBoxes?.[selectedFields[doc.id]]
+                            }
+                          />
+                        )}
+                        <div>
+                          {editingDocs[doc.id] ? (
+                            <DocumentEditor
+                              data={doc.data}
+                              original={doc.originalData ?? doc.data}
+                              revealed={pii.isRevealed(doc.id)}
+                              onChange={(data) =>
+                                changeDocumentData(doc.id, data)
+                              }
+                              onSelectField={(path) =>
+                                handleSelectField(doc.id, path)
+                              }
+                            />
+                          ) : (
+                            <DocumentFields
+                              type={doc.type}
+                              data={doc.data}
+                              revealed={pii.isRevealed(doc.id)}
+                              selectedPath={selectedFields[doc.id]}
+                              onSelectField={(path) =>
+                                handleSelectField(doc.id, path)
+                              }
+                            />
+                          )}
+                          <IdValidationList data={doc.data} />
+                        </div>
+                      </div>
+                      <div className="flex gap-2 mt-4">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => toggleEditing(doc.id)}
+                          disabled={!can("edit_documents")}
+                        >
+                          <Pencil className="h-4 w-4" />
+                          {editingDocs[doc.id] ? "Done Editing" : "Edit Fields"}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => togglePreview(doc.id)}
+                        >
+                          <Eye className="h-4 w-4" />
+                          {previewDocs[doc.id]
+                            ? "Hide Preview"
+                            : "Show Preview"}
+                        </Button>
+                        <RevealButton
+                          revealed={pii.isRevealed(doc.id)}
+                          onReveal={() => pii.reveal(doc.id)}
+                          onHide={() => pii.hide(doc.id)}
+                        />
+                      </div>
+                      <RawJsonPanel
+                        view={doc.id}
+                        value={doc.data}
+                        label="Raw JSON"
+                        revealed={pii.isRevealed(doc.id)}
+                        caseId={null}
+                      />
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+
+            <Card className="border-none shadow-md">
+              <CardHeader>
+                <CardTitle className="text-lg text-gray-800">
+                  Cross-Document Consistency
+                </CardTitle>
+                <CardDescription>
+                  Names, dates of birth and addresses compared across the
+                  uploaded documents
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <ConsistencyMatrix
+                  report={checkConsistency(extractedData.documents)}
+                  revealed={pii.isRevealed("consistency")}
+                />
+                <RevealButton
+                  revealed={pii.isRevealed("consistency")}
+                  onReveal={() => pii.reveal("consistency")}
+                  onHide={() => pii.hide("consistency")}
+                />
+              </CardContent>
+            </Card>
+
+            <PreCheckCard extractedData={extractedData} />
+
+            <Alert className="bg-blue-50 border-blue-200">
+              <FileCheck className="h-5 w-5 text-blue-500" />
+              <AlertTitle className="text-blue-800">
+                Ready for KYC Processing
+              </AlertTitle>
+              <AlertDescription className="text-blue-700">
+                Documents have been extracted successfully. Click "Process KYC"
+                to perform fraud detection, risk assessment, and compliance
+                checks.
+              </AlertDescription>
+            </Alert>
+          </div>
+        </div>
+        <WorkflowErrorAlert />
+      </CardContent>
+
+      <CardFooter className="flex justify-between p-6 bg-gray-50 rounded-b-lg">
+        <Button variant="outline" onClick={reset}>
+          Upload New Documents
+        </Button>
+        <Button
+          onClick={runKyc}
+          disabled={!can("run_kyc")}
+          title={can("run_kyc") ? undefined : "Your role cannot run KYC checks"}
+          className="bg-blue-600 hover:bg-blue-700"
+        >
+          <FileCheck className="mr-2 h-4 w-4" />
+          Process KYC
+        </Button>
+      </CardFooter>
+    </>
+  );
+}
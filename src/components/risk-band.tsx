@@ -0,0 +1,44 @@
+import type { ReactNode } from "react";
+import type { BandColour, RiskBand } from "@/lib/risk-policy";
+
+// Full class names, so Tailwind keeps them.
+const TEXT_CLASSES: Record<BandColour, string> = {
+  green: "text-green-600",
+  yellow: "text-yellow-600",
+  amber: "text-amber-600",
+  orange: "text-orange-600",
+  red: "text-red-600",
+  gray: "text-gray-800",
+};
+
+const BADGE_CLASSES: Record<BandColour, string> = {
+  green: "bg-green-100 text-green-800",
+  yellow: "bg-yellow-100 text-yellow-800",
+  amber: "bg-amber-100 text-amber-800",
+  orange: "bg-orange-100 text-orange-800",
+  red: "bg-red-100 text-red-800",
+  gray: "bg-gray-100 text-gray-800",
+};
+
+// Values that match no band of the policy are shown uncoloured.
+export function bandTextClass(band: RiskBand | null): string {
+  return TEXT_CLASSES[band?.colour ?? "gray"];
+}
+
+export function RiskBandBadge({
+  band,
+  children,
+}: {
+  band: RiskBand | null;
+  children: ReactNode;
+}) {
+  return (
+    <span
+      className={`text-xs px-3 py-1 rounded-full ${
+        BADGE_CLASSES[band?.colour ?? "gray"]
+      }`}
+    >
+      {children}
+    </span>
+  );
+}
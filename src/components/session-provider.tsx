@@ -0,0 +1,33 @@
+"use client";
+
+import { createContext, useContext, useEffect, type ReactNode } from "react";
+import { setAuditActor } from "@/lib/audit-log";
+import { hasPermission, type Permission, type SessionUser } from "@/lib/auth";
+
+const SessionContext = createContext<SessionUser | null>(null);
+
+// Hands the server-verified user to client components, and attributes audit
+// events to them.
+export function SessionProvider({
+  user,
+  children,
+}: {
+  user: SessionUser | null;
+  children: ReactNode;
+}) {
+  useEffect(() => {
+    setAuditActor(user?.username ?? null);
+  }, [user]);
+
+  return (
+    <SessionContext.Provider value={user}>{children}</SessionContext.Provider>
+  );
+}
+
+export function useSession() {
+  const user = useContext(SessionContext);
+  return {
+    user,
+    can: (permission: Permission) => hasPermission(user?.role, permission),
+  };
+}
@@ -0,0 +1,50 @@
+import { Check } from "lucide-react";
+import {
+  WIZARD_STEP_LABELS,
+  WIZARD_STEPS,
+  type WizardStep,
+} from "@/lib/wizard";
+
+// Steps before the current one are done; with no current step (a session
+// being restored) none are.
+export function StepIndicator({ current }: { current: WizardStep | null }) {
+  const currentIndex = current ? WIZARD_STEPS.indexOf(current) : -1;
+
+  return (
+    <ol className="flex items-center gap-2 px-8 pt-6 text-sm">
+      {WIZARD_STEPS.map((step, index) => {
+        const done = index < currentIndex;
+        const active = index === currentIndex;
+        return (
+          <li
+            key={step}
+            className="flex flex-1 items-center gap-2"
+            aria-current={active ? "step" : undefined}
+          >
+            <span
+              className={`flex h-7 w-7 shrink-0 items-center justify-center rounded-full text-xs font-semibold ${
+                done
+                  ? "bg-green-600 text-white"
+                  : active
+                  ? "bg-blue-600 text-white"
+                  : "bg-gray-200 text-gray-600"
+              }`}
+            >
+              {done ? <Check className="h-4 w-4" /> : index + 1}
+            </span>
+            <span
+              className={
+                active ? "font-semibold text-gray-900" : "text-gray-500"
+              }
+            >
+              {WIZARD_STEP_LABELS[step]}
+            </span>
+            {index < WIZARD_STEPS.length - 1 && (
+              <span className="h-px flex-1 bg-gray-300" />
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,371 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import {
+  AlertCircle,
+  FileText,
+  Loader2,
+  RotateCcw,
+  Upload,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { CardContent, CardFooter } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import {
+  ProcessingStatus,
+  processingTitle,
+} from "@/components/processing-status";
+import { useSession } from "@/components/session-provider";
+import { useWizard } from "@/components/wizard-provider";
+import { WorkflowErrorAlert } from "@/components/wizard-shell";
+import {
+  ACCEPT_ATTRIBUTE,
+  formatBytes,
+  SUPPORTED_TYPES_LABEL,
+  UPLOAD_RULES,
+} from "@/lib/file-validation";
+
+function UploadQueue() {
+  const {
+    workflow,
+    processingDetail,
+    files,
+    uploadStates,
+    retryUpload,
+    cancelUpload,
+    cancelAllUploads,
+    continueWithUploaded,
+  } = useWizard();
+
+  const states = files.map((entry) => uploadStates[entry.id]);
+  const active = states.filter((state) => state?.status !== "cancelled");
+  const loaded = active.reduce((sum, state) => sum + (state?.loaded ?? 0), 0);
+  const total = active.reduce((sum, state) => sum + (state?.total ?? 0), 0);
+  const percent = total > 0 ? Math.floor((loaded / total) * 100) : 0;
+  const settled = states.every(
+    (state) =>
+      state?.status === "uploaded" ||
+      state?.status === "failed" ||
+      state?.status === "cancelled"
+  );
+  const uploadedCount = states.filter(
+    (state) => state?.status === "uploaded"
+  ).length;
+
+  return (
+    <div className="py-8 space-y-8">
+      <div className="space-y-4 text-center">
+        {settled ? (
+          <AlertCircle className="h-16 w-16 mx-auto text-amber-500" />
+        ) : (
+          <Loader2 className="h-16 w-16 animate-spin mx-auto text-blue-600" />
+        )}
+        <h3 className="text-xl font-semibold text-gray-900">
+          {settled
+            ? "Some files were not uploaded"
+            : processingTitle(workflow.step, processingDetail)}
+        </h3>
+        <div className="w-full max-w-md mx-auto">
+          <Progress value={percent} className="h-3 rounded-full" />
+          <p className="mt-3 text-sm text-gray-500">
+            {`Uploading files: ${percent}% (${(loaded / 1024).toFixed(0)} of ${(
+              total / 1024
+            ).toFixed(0)} KB)`}
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {files.map((entry) => {
+          const state = uploadStates[entry.id];
+          if (!state) return null;
+          const filePercent =
+            state.total > 0
+              ? Math.floor((state.loaded / state.total) * 100)
+              : 0;
+
+          return (
+            <div key={entry.id} className="p-3 bg-gray-50 rounded-lg">
+              <div className="flex items-center">
+                <FileText className="h-6 w-6 text-blue-500 mr-3" />
+                <span className="text-sm text-gray-600 flex-1">
+                  {entry.file.name}
+                </span>
+                <span
+                  className={`text-xs mr-3 capitalize ${
+                    state.status === "uploaded"
+                      ? "text-green-600"
+                      : state.status === "failed"
+                      ? "text-red-600"
+                      : "text-gray-500"
+                  }`}
+                >
+                  {state.status === "uploading"
+                    ? `${filePercent}%`
+                    : state.status}
+                </span>
+                {(state.status === "queued" ||
+                  state.status === "uploading") && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => cancelUpload(entry.id)}
+                    aria-label={`Cancel upload of ${entry.file.name}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+                {(state.status === "failed" ||
+                  state.status === "cancelled") && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => retryUpload(entry)}
+                    aria-label={`Retry upload of ${entry.file.name}`}
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              {state.status === "uploading" && (
+                <Progress value={filePercent} className="mt-2 h-1.5" />
+              )}
+              {state.error && (
+                <p className="mt-2 text-xs text-red-600">{state.error}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-end gap-3">
+        <Button variant="outline" onClick={cancelAllUploads}>
+          {settled ? "Back" : "Cancel All"}
+        </Button>
+        {settled && (
+          <Button
+            onClick={continueWithUploaded}
+            disabled={uploadedCount === 0}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            Continue with {uploadedCount} uploaded file
+            {uploadedCount === 1 ? "" : "s"}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function FileSelect() {
+  const {
+    workflow,
+    files,
+    rejectedFiles,
+    addFiles,
+    removeFile,
+    retryProcessing,
+  } = useWizard();
+  const [isDragOver, setIsDragOver] = useState<boolean>(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = (newFiles: File[]) => {
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+    addFiles(newFiles);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files?.length) {
+      handleFiles(Array.from(e.target.files));
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragOver(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragOver(false);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragOver(false);
+
+    if (e.dataTransfer.files?.length) {
+      handleFiles(Array.from(e.dataTransfer.files));
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div
+        className={`border-2 border-dashed rounded-xl p-10 text-center transition-all duration-300 ${
+          isDragOver
+            ? "border-blue-500 bg-blue-50"
+            : "border-gray-300 hover:border-blue-500"
+        } cursor-pointer`}
+        onClick={() => fileInputRef.current?.click()}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
+        <Upload
+          className={`mx-auto h-16 w-16 ${
+            isDragOver ? "text-blue-500" : "text-gray-400"
+          } transition-colors`}
+        />
+        <h3 className="mt-4 text-xl font-semibold text-gray-900">
+          {isDragOver ? "Drop Files Here" : "Upload Documents"}
+        </h3>
+        <p className="mt-2 text-sm text-gray-500">
+          Drag and drop your PDF/Images/Text files or click to browse
+        </p>
+        <p className="mt-2 text-xs text-gray-400">
+          Only {SUPPORTED_TYPES_LABEL} files supported (Max{" "}
+          {formatBytes(UPLOAD_RULES.maxFileSize)} each,{" "}
+          {formatBytes(UPLOAD_RULES.maxBatchSize)} in total)
+        </p>
+        <input
+          ref={fileInputRef}
+          id="file-upload"
+          name="file-upload"
+          type="file"
+          multiple
+          accept={ACCEPT_ATTRIBUTE}
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+
+      {files.length > 0 && (
+        <div className="mt-6">
+          <h4 className="font-semibold text-gray-700 mb-4">
+            Selected Files ({files.length})
+          </h4>
+          <div className="space-y-3">
+            {files.map(({ id, file }) => (
+              <div
+                key={id}
+                className="flex items-center p-3 bg-gray-50 rounded-lg group hover:bg-gray-100 transition"
+              >
+                <FileText className="h-6 w-6 text-blue-500 mr-3" />
+                <span className="text-sm text-gray-600 flex-1">
+                  {file.name}
+                </span>
+                <span className="text-xs text-gray-500 mr-3">
+                  {(file.size / 1024).toFixed(0)} KB
+                </span>
+                <button
+                  onClick={() => removeFile(id)}
+                  className="text-red-500 hover:text-red-700 opacity-0 group-hover:opacity-100 transition-opacity"
+                >
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    className="h-5 w-5"
+                    viewBox="0 0 20 20"
+                    fill="currentColor"
+                  >
+                    <path
+                      fillRule="evenodd"
+                      d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z"
+                      clipRule="evenodd"
+                    />
+                  </svg>
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {rejectedFiles.length > 0 && (
+        <Alert className="mt-4 bg-amber-50 border-amber-200">
+          <AlertCircle className="h-5 w-5 text-amber-600" />
+          <AlertTitle className="text-amber-800">
+            {rejectedFiles.length} file
+            {rejectedFiles.length === 1 ? " was" : "s were"} not added
+          </AlertTitle>
+          <AlertDescription className="text-amber-700">
+            <ul className="list-disc pl-5">
+              {rejectedFiles.map(({ file, reason }) => (
+                <li key={`${file.name}:${reason}`}>
+                  <span className="font-medium">{file.name}</span>: {reason}
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {workflow.step === "select" && workflow.retryUploads && (
+        <Button variant="outline" onClick={retryProcessing}>
+          <RotateCcw className="mr-2 h-4 w-4" />
+          Retry Processing {workflow.retryUploads.length} Uploaded File
+          {workflow.retryUploads.length === 1 ? "" : "s"}
+        </Button>
+      )}
+    </div>
+  );
+}
+
+// File selection, the upload queue and document extraction.
+export function UploadStep() {
+  const { workflow, files, upload, reset } = useWizard();
+  const { can } = useSession();
+
+  if (workflow.step === "extracting") {
+    return <ProcessingStatus />;
+  }
+
+  return (
+    <>
+      <CardContent className="p-8">
+        {workflow.step === "uploading" ? <UploadQueue /> : <FileSelect />}
+        <WorkflowErrorAlert />
+      </CardContent>
+
+      <CardFooter className="flex justify-between p-6 bg-gray-50 rounded-b-lg">
+        <Button
+          variant="outline"
+          onClick={reset}
+          disabled={workflow.step !== "select" || files.length === 0}
+        >
+          Clear
+        </Button>
+        <Button
+          onClick={upload}
+          disabled={
+            workflow.step !== "select" ||
+            files.length === 0 ||
+            !can("upload_documents")
+          }
+          title={
+            can("upload_documents")
+              ? undefined
+              : "Your role cannot upload documents"
+          }
+          className="bg-blue-600 hover:bg-blue-700"
+        >
+          {workflow.step !== "select" ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Processing...
+            </>
+          ) : (
+            <>
+              <Upload className="mr-2 h-4 w-4" />
+              Upload & Process
+            </>
+          )}
+        </Button>
+      </CardFooter>
+    </>
+  );
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import { LogOut } from "lucide-react";
+import { useSession } from "@/components/session-provider";
+import { ROLE_LABELS } from "@/lib/auth";
+import { clearLocalCases } from "@/lib/case-history";
+
+// Signed-in user and sign-out, for the blue page headers.
+export function UserMenu() {
+  const { user } = useSession();
+  if (!user) return null;
+
+  const handleSignOut = async () => {
+    try {
+      await clearLocalCases(user.username);
+    } catch (err) {
+      console.error("Case history clear error:", err);
+    }
+    try {
+      await fetch("/api/auth/logout", { method: "POST" });
+    } catch (err) {
+      console.error("Logout error:", err);
+    }
+    window.location.assign("/login");
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-blue-100">
+      <span>
+        {user.name} ({ROLE_LABELS[user.role]})
+      </span>
+      <button
+        type="button"
+        onClick={handleSignOut}
+        className="flex items-center gap-1 hover:text-white"
+      >
+        <LogOut className="h-4 w-4" />
+        Sign Out
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,919 @@
+"use client";
+
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useReducer,
+  useRef,
+  useState,
+  type ReactNode,
+} from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { useSession } from "@/components/session-provider";
+import {
+  createDocumentId,
+  processDocuments,
+  processKyc,
+  resumeSession,
+  submitDecision,
+  uploadDocument,
+  UploadCancelledError,
+  type Document,
+  type DocumentData,
+  type KYCRequest,
+  type KYCResult,
+  type ProgressUpdate,
+  type ReviewDecision,
+  type UploadedFile,
+} from "@/lib/kyc-api";
+import { runWithConcurrency } from "@/lib/concurrency";
+import { validateFiles, type FileRejection } from "@/lib/file-validation";
+import { progressPercent } from "@/lib/progress-stream";
+import type { DocumentTypeId } from "@/lib/document-types";
+import { checkConsistency, consistencyFindings } from "@/lib/consistency";
+import { buildCaseRecord, getCaseStore } from "@/lib/case-history";
+import { audit, hashFile } from "@/lib/audit-log";
+import {
+  buildReport,
+  downloadBlob,
+  reportFilename,
+  type ReportFormat,
+} from "@/lib/report-export";
+import { diffDocumentData } from "@/lib/document-edits";
+import {
+  currentPreCheckContext,
+  INITIAL_WORKFLOW_STATE,
+  workflowError,
+  workflowReducer,
+  type WorkflowState,
+} from "@/lib/workflow";
+import {
+  WIZARD_STEPS,
+  wizardHref,
+  wizardSourceFromParams,
+  wizardStepFor,
+  wizardStepForPath,
+  type WizardSource,
+} from "@/lib/wizard";
+
+export interface QueuedFile {
+  id: string;
+  file: File;
+}
+
+export type UploadStatus =
+  | "queued"
+  | "uploading"
+  | "uploaded"
+  | "failed"
+  | "cancelled";
+
+export interface UploadState {
+  status: UploadStatus;
+  loaded: number;
+  total: number;
+  error?: string;
+  result?: UploadedFile;
+}
+
+interface WizardContextValue {
+  workflow: WorkflowState;
+  source: WizardSource;
+  files: QueuedFile[];
+  rejectedFiles: FileRejection[];
+  uploadStates: Record<string, UploadState>;
+  progress: number;
+  processingDetail: ProgressUpdate | null;
+  addFiles: (files: File[]) => Promise<void>;
+  removeFile: (id: string) => void;
+  upload: () => Promise<void>;
+  retryUpload: (entry: QueuedFile) => void;
+  cancelUpload: (id: string) => void;
+  cancelAllUploads: () => void;
+  continueWithUploaded: () => void;
+  retryProcessing: () => void;
+  cancelProcessing: () => void;
+  changeDocumentType: (id: string, type: DocumentTypeId) => void;
+  changeDocumentData: (id: string, data: DocumentData) => void;
+  runKyc: () => Promise<void>;
+  backToReview: () => void;
+  recordDecision: (decision: ReviewDecision) => Promise<void>;
+  generateReport: (format: ReportFormat) => Promise<void>;
+  reset: () => void;
+}
+
+const WizardContext = createContext<WizardContextValue | null>(null);
+
+const UPLOAD_CONCURRENCY = 3;
+
+// Mirrors the session source in the address bar (without a navigation) so the
+// current page can be reloaded or shared.
+const showSourceInUrl = (source: WizardSource) => {
+  const step = wizardStepForPath(window.location.pathname);
+  if (!step) return;
+  const href = wizardHref(step, source);
+  if (`${window.location.pathname}${window.location.search}` !== href) {
+    window.history.replaceState(null, "", href);
+  }
+};
+
+// Holds the verification session for the wizard pages, so it survives moving
+// between them, and keeps the page in step with the workflow both ways.
+export function WizardProvider({ children }: { children: ReactNode }) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { user } = useSession();
+  const [files, setFiles] = useState<QueuedFile[]>([]);
+  const [uploadStates, setUploadStates] = useState<Record<string, UploadState>>(
+    {}
+  );
+  const uploadControllers = useRef(new Map<string, AbortController>());
+  // Bumped whenever the uploads are abandoned, so uploads still settling from
+  // an earlier batch don't write their outcome over the cleared state.
+  const uploadBatch = useRef(0);
+  const [workflow, dispatch] = useReducer(
+    workflowReducer,
+    INITIAL_WORKFLOW_STATE
+  );
+  const processingController = useRef<AbortController | null>(null);
+  const [progress, setProgress] = useState<number>(0);
+  const [startedAt, setStartedAt] = useState<Date | null>(null);
+  const [processingDetail, setProcessingDetail] =
+    useState<ProgressUpdate | null>(null);
+  const [extractionJobId, setExtractionJobId] = useState<string | null>(null);
+  const [source, setSource] = useState<WizardSource>(null);
+  const [rejectedFiles, setRejectedFiles] = useState<FileRejection[]>([]);
+
+  const extractedData =
+    "extractedData" in workflow ? workflow.extractedData : null;
+  const currentCaseId = workflow.step === "result" ? workflow.caseId : null;
+  const page = wizardStepFor(workflow.step);
+  const pathPage = wizardStepForPath(pathname);
+  const lastPage = useRef(page);
+  const lastPathPage = useRef(pathPage);
+
+  const caseStore = () => getCaseStore(user?.username ?? null);
+
+  const showSource = (next: WizardSource) => {
+    setSource(next);
+    showSourceInUrl(next);
+  };
+
+  const addFiles = async (newFiles: File[]) => {
+    const { accepted, rejected } = await validateFiles(
+      newFiles,
+      files.map((entry) => entry.file)
+    );
+
+    setRejectedFiles(rejected);
+    setFiles((prevFiles) => [
+      ...prevFiles,
+      ...accepted.map((file) => ({ id: createDocumentId(), file })),
+    ]);
+  };
+
+  const removeFile = (idToRemove: string) => {
+    setFiles((prevFiles) =>
+      prevFiles.filter((entry) => entry.id !== idToRemove)
+    );
+  };
+
+  // Hashes the file as sent so the audit log pins down exactly what was
+  // uploaded, whatever the outcome.
+  const auditUpload = async (
+    entry: QueuedFile,
+    status: "uploaded" | "failed" | "cancelled",
+    error?: string
+  ) => {
+    try {
+      audit("upload", {
+        documentId: entry.id,
+        filename: entry.file.name,
+        size: entry.file.size,
+        mimeType: entry.file.type,
+        sha256: await hashFile(entry.file),
+        status,
+        error,
+      });
+    } catch (err) {
+      console.error("Audit log error:", err);
+    }
+  };
+
+  // Ignored once the batch the update comes from has been abandoned.
+  const updateUploadState = (
+    batch: number,
+    id: string,
+    patch: Partial<UploadState> | ((state: UploadState) => Partial<UploadState>)
+  ) => {
+    setUploadStates((prev) =>
+      batch === uploadBatch.current && prev[id]
+        ? {
+            ...prev,
+            [id]: {
+              ...prev[id],
+              ...(typeof patch === "function" ? patch(prev[id]) : patch),
+            },
+          }
+        : prev
+    );
+  };
+
+  const abortUploads = () => {
+    uploadBatch.current++;
+    uploadControllers.current.forEach((controller) => controller.abort());
+    uploadControllers.current.clear();
+  };
+
+  // Never throws: each file records its own outcome so one failure doesn't
+  // abort the rest of the batch. A failure, as opposed to a cancellation, is
+  // also reported to `onFailed`.
+  const uploadOne = async (
+    entry: QueuedFile,
+    onFailed?: (message: string) => void
+  ): Promise<UploadedFile | null> => {
+    const batch = uploadBatch.current;
+    const update = (patch: Parameters<typeof updateUploadState>[2]) =>
+      updateUploadState(batch, entry.id, patch);
+
+    const controller = uploadControllers.current.get(entry.id);
+    if (!controller || controller.signal.aborted) {
+      update({ status: "cancelled", loaded: 0 });
+      return null;
+    }
+
+    update({
+      status: "uploading",
+      loaded: 0,
+      error: undefined,
+    });
+
+    try {
+      const result = await uploadDocument(entry.file, entry.id, {
+        signal: controller.signal,
+        onProgress: (loaded, total) => update({ loaded, total }),
+      });
+      update((state) => ({ status: "uploaded", loaded: state.total, result }));
+      auditUpload(entry, "uploaded");
+      return result;
+    } catch (err) {
+      console.error("Upload error:", err);
+      if (!(err instanceof UploadCancelledError)) {
+        onFailed?.(err instanceof Error ? err.message : "Upload failed");
+      }
+      auditUpload(
+        entry,
+        err instanceof UploadCancelledError ? "cancelled" : "failed",
+        err instanceof Error ? err.message : undefined
+      );
+      update(
+        err instanceof UploadCancelledError
+          ? { status: "cancelled", loaded: 0 }
+          : {
+              status: "failed",
+              loaded: 0,
+              error: err instanceof Error ? err.message : "Upload failed",
+            }
+      );
+      return null;
+    } finally {
+      if (uploadControllers.current.get(entry.id) === controller) {
+        uploadControllers.current.delete(entry.id);
+      }
+    }
+  };
+
+  const upload = async () => {
+    if (files.length === 0) {
+      dispatch({
+        type: "FAILED",
+        error: {
+          message: "Please select at least one file to upload",
+          issues: [],
+        },
+      });
+      return;
+    }
+
+    abortUploads();
+    const batch = uploadBatch.current;
+    dispatch({ type: "UPLOAD_STARTED" });
+    setStartedAt(new Date());
+    setProgress(0);
+    setUploadStates(
+      Object.fromEntries(
+        files.map((entry) => [
+          entry.id,
+          { status: "queued", loaded: 0, total: entry.file.size },
+        ])
+      )
+    );
+    files.forEach((entry) =>
+      uploadControllers.current.set(entry.id, new AbortController())
+    );
+
+    const failures: string[] = [];
+    let results: (UploadedFile | null)[];
+    try {
+      results = await runWithConcurrency(files, UPLOAD_CONCURRENCY, (entry) =>
+        uploadOne(entry, (message) => failures.push(message))
+      );
+    } catch (err) {
+      console.error("Upload error:", err);
+      if (batch !== uploadBatch.current) return;
+      dispatch({
+        type: "UPLOAD_FAILED",
+        error: workflowError(err, "Failed to upload files."),
+      });
+      return;
+    }
+
+    // Cancelled or started over while the batch was running.
+    if (batch !== uploadBatch.current) return;
+
+    // When every file failed there is nothing to continue with, so the user
+    // goes back to the selection. With only some failures or cancellations
+    // the upload view stays open so the user can retry those files or
+    // continue with what did upload.
+    if (failures.length === files.length) {
+      dispatch({
+        type: "UPLOAD_FAILED",
+        error: {
+          message:
+            files.length === 1
+              ? `Failed to upload the file: ${failures[0]}`
+              : `None of the files could be uploaded: ${failures[0]}`,
+          issues: [],
+        },
+      });
+    } else if (results.every((result) => result !== null)) {
+      await processUploads(results as UploadedFile[]);
+    }
+  };
+
+  const retryUpload = (entry: QueuedFile) => {
+    uploadControllers.current.set(entry.id, new AbortController());
+    uploadOne(entry);
+  };
+
+  const cancelUpload = (id: string) => {
+    uploadControllers.current.get(id)?.abort();
+  };
+
+  const cancelAllUploads = () => {
+    abortUploads();
+    setUploadStates({});
+    dispatch({ type: "CANCEL" });
+  };
+
+  const continueWithUploaded = () => {
+    const uploads = files
+      .map((entry) => uploadStates[entry.id]?.result)
+      .filter((result): result is UploadedFile => result !== undefined);
+    processUploads(uploads);
+  };
+
+  const retryProcessing = () => {
+    if (workflow.step === "select" && workflow.retryUploads) {
+      processUploads(workflow.retryUploads);
+    }
+  };
+
+  // Simulates progress from `from` towards 95% until the server streams a real
+  // progress event, at which point the stream takes over the bar and title.
+  const trackProcessing = (from: number, increment: number) => {
+    const interval = setInterval(() => {
+      setProgress((prev) => (prev >= 95 ? prev : prev + increment));
+    }, 500);
+    const stop = () => clearInterval(interval);
+
+    const onProgress = (update: ProgressUpdate) => {
+      stop();
+      setProcessingDetail(update);
+      const percent = progressPercent(update);
+      if (percent !== null) {
+        setProgress(Math.round(from + (percent * (100 - from)) / 100));
+      }
+    };
+
+    return { stop, onProgress };
+  };
+
+  const resumeJob = (jobId: string) => {
+    const controller = new AbortController();
+    dispatch({ type: "LOAD_STARTED" });
+    setProgress(0);
+
+    const tracker = trackProcessing(0, 5);
+    resumeSession(jobId, {
+      onProgress: tracker.onProgress,
+      signal: controller.signal,
+    })
+      .then(async (session) => {
+        setExtractionJobId(session.extractionJobId);
+        setProgress(100);
+        if (!session.kycJobId || !session.kycResult) {
+          dispatch({
+            type: "LOADED",
+            documents: session.documents,
+            preCheck: currentPreCheckContext(),
+          });
+          return;
+        }
+
+        // A shared KYC job link needs a case to decide on, as a fresh run
+        // does: the one saved when the job ran, else a new one keyed by the
+        // job ID.
+        const caseId = session.kycJobId;
+        const record = await caseStore()
+          .get(caseId)
+          .catch((err) => {
+            console.error("Case history load error:", err);
+            return null;
+          });
+        if (controller.signal.aborted) return;
+        if (record) {
+          setStartedAt(record.startedAt ? new Date(record.startedAt) : null);
+          dispatch({
+            type: "LOADED",
+            documents: session.documents,
+            preCheck: currentPreCheckContext(),
+            kycResult: session.kycResult,
+            completedAt: new Date(record.completedAt),
+            caseId,
+            decision: record.decision ?? null,
+          });
+          return;
+        }
+
+        // The job doesn't say when it finished, so the case is dated by
+        // when it was first opened.
+        const completedAt = new Date();
+        dispatch({
+          type: "LOADED",
+          documents: session.documents,
+          preCheck: currentPreCheckContext(),
+          kycResult: session.kycResult,
+          completedAt,
+          caseId,
+        });
+        saveToHistory(
+          caseId,
+          session.documents,
+          session.kycResult,
+          completedAt
+        );
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error("Job resume error:", err);
+        dispatch({
+          type: "LOAD_FAILED",
+          error: workflowError(err, "Failed to load this job."),
+        });
+      })
+      .finally(() => tracker.stop());
+
+    return () => controller.abort();
+  };
+
+  // Reopens a case from the history in the same result view.
+  const openCase = (caseId: string) => {
+    let cancelled = false;
+    dispatch({ type: "LOAD_STARTED" });
+    caseStore()
+      .get(caseId)
+      .then((record) => {
+        if (cancelled) return;
+        if (!record) {
+          dispatch({
+            type: "LOAD_FAILED",
+            error: {
+              message: `Case ${caseId} is not in the case history.`,
+              issues: [],
+            },
+          });
+          return;
+        }
+        setExtractionJobId(record.extractionJobId);
+        setStartedAt(record.startedAt ? new Date(record.startedAt) : null);
+        dispatch({
+          type: "LOADED",
+          documents: record.documents,
+          preCheck: currentPreCheckContext(),
+          kycResult: record.kycResult,
+          completedAt: new Date(record.completedAt),
+          caseId: record.id,
+          decision: record.decision ?? null,
+        });
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error("Case load error:", err);
+        dispatch({
+          type: "LOAD_FAILED",
+          error: workflowError(err, "Failed to load this case."),
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  };
+
+  const processUploads = async (uploads: UploadedFile[]) => {
+    const documentIds = uploads.map((upload) => upload.documentId);
+    let jobId: string | null = null;
+    const controller = new AbortController();
+    processingController.current = controller;
+    audit("process_docs", { phase: "started", documentIds });
+    dispatch({ type: "EXTRACTION_STARTED", uploads });
+    setProgress(50);
+    setProcessingDetail(null);
+
+    try {
+      const tracker = trackProcessing(50, 5);
+      let parsedDocuments: Document[];
+      try {
+        parsedDocuments = await processDocuments(uploads, {
+          onProgress: tracker.onProgress,
+          onJobCreated: (id) => {
+            jobId = id;
+            setExtractionJobId(id);
+            showSource({ jobId: id });
+          },
+          signal: controller.signal,
+        });
+      } finally {
+        tracker.stop();
+      }
+
+      audit("process_docs", { phase: "completed", documentIds, jobId });
+      setProgress(100);
+      dispatch({
+        type: "EXTRACTION_SUCCEEDED",
+        documents: parsedDocuments,
+        preCheck: currentPreCheckContext(),
+      });
+    } catch (err) {
+      if (controller.signal.aborted) {
+        audit("process_docs", { phase: "cancelled", documentIds, jobId });
+        return;
+      }
+      console.error("Upload or processing error:", err);
+      audit("process_docs", {
+        phase: "failed",
+        documentIds,
+        jobId,
+        error: err instanceof Error ? err.message : undefined,
+      });
+      dispatch({
+        type: "EXTRACTION_FAILED",
+        error: workflowError(err, "Failed to upload or process files."),
+      });
+    }
+  };
+
+  // History is best-effort: a storage failure must not hide the KYC result
+  // or stop a decision being recorded.
+  const saveToHistory = (
+    id: string,
+    documents: Document[],
+    result: KYCResult,
+    completedAt: Date | null,
+    decision: ReviewDecision | null = null
+  ) => {
+    const record = buildCaseRecord({
+      id,
+      startedAt: startedAt?.toISOString() ?? null,
+      completedAt: (completedAt ?? new Date()).toISOString(),
+      files: documents.map((doc) => {
+        const file = files.find((entry) => entry.id === doc.id)?.file;
+        return {
+          documentId: doc.id,
+          filename: doc.filename,
+          size: file?.size,
+          mimeType: file?.type || undefined,
+        };
+      }),
+      documents,
+      kycResult: result,
+      extractionJobId,
+      decision,
+    });
+    caseStore()
+      .save(record)
+      .catch((err) => console.error("Case history save error:", err));
+  };
+
+  const runKyc = async () => {
+    if (workflow.step !== "review" || !extractedData) return;
+
+    dispatch({ type: "KYC_STARTED" });
+    setProcessingDetail(null);
+    setProgress(0);
+
+    const processed = extractedData.documents.filter(
+      (doc) => doc.status === "processed"
+    );
+    const documentIds = processed.map((doc) => doc.id);
+    let kycJobId: string | null = null;
+    const controller = new AbortController();
+    processingController.current = controller;
+    audit("process_kyc", { phase: "started", documentIds });
+
+    try {
+      const combinedData: KYCRequest = {
+        documentData: processed.map((doc) => ({
+          document_id: doc.id,
+          filename: doc.filename,
+          type: doc.type,
+          data: doc.data,
+          reviewer_edits: doc.originalData
+            ? diffDocumentData(doc.originalData, doc.data)
+            : undefined,
+        })),
+        verificationSummary: extractedData.verificationSummary,
+        consistencyChecks: consistencyFindings(
+          checkConsistency(extractedData.documents)
+        ),
+      };
+
+      const tracker = trackProcessing(0, 10);
+      try {
+        const kycData = await processKyc(combinedData, {
+          onProgress: tracker.onProgress,
+          onJobCreated: (id) => {
+            kycJobId = id;
+            showSource({ jobId: id });
+          },
+          extractionJobId: extractionJobId ?? undefined,
+          signal: controller.signal,
+        });
+        const completedAt = new Date();
+        const caseId = kycJobId ?? crypto.randomUUID();
+        audit("process_kyc", {
+          phase: "completed",
+          documentIds,
+          jobId: kycJobId,
+          caseId,
+        });
+        dispatch({
+          type: "KYC_SUCCEEDED",
+          kycResult: kycData,
+          completedAt,
+          caseId,
+        });
+        saveToHistory(caseId, extractedData.documents, kycData, completedAt);
+      } finally {
+        tracker.stop();
+        setProgress(100);
+      }
+    } catch (err) {
+      if (controller.signal.aborted) {
+        audit("process_kyc", {
+          phase: "cancelled",
+          documentIds,
+          jobId: kycJobId,
+        });
+        return;
+      }
+      console.error("KYC processing error:", err);
+      audit("process_kyc", {
+        phase: "failed",
+        documentIds,
+        jobId: kycJobId,
+        error: err instanceof Error ? err.message : undefined,
+      });
+      dispatch({
+        type: "KYC_FAILED",
+        error: workflowError(err, "Failed to process KYC data."),
+      });
+    }
+  };
+
+  const changeDocumentType = (id: string, type: DocumentTypeId) => {
+    audit("field_edit", { documentId: id, kind: "type", paths: ["type"] });
+    dispatch({
+      type: "DOCUMENT_TYPE_CHANGED",
+      id,
+      documentType: type,
+      preCheck: currentPreCheckContext(),
+    });
+  };
+
+  // Only the changed paths are audited; the values stay out of the log.
+  const changeDocumentData = (id: string, data: DocumentData) => {
+    const previous = extractedData?.documents.find((doc) => doc.id === id);
+    const paths = previous
+      ? diffDocumentData(previous.data, data).map((change) => change.path)
+      : [];
+    if (paths.length > 0) {
+      audit("field_edit", { documentId: id, kind: "data", paths });
+    }
+    dispatch({
+      type: "DOCUMENT_DATA_CHANGED",
+      id,
+      data,
+      preCheck: currentPreCheckContext(),
+    });
+  };
+
+  const reset = () => {
+    audit("reset", { caseId: currentCaseId });
+    abortUploads();
+    processingController.current?.abort();
+    dispatch({ type: "RESET" });
+    setFiles([]);
+    setRejectedFiles([]);
+    setUploadStates({});
+    setStartedAt(null);
+    setProgress(0);
+    setProcessingDetail(null);
+    setExtractionJobId(null);
+    showSource(null);
+  };
+
+  // Stops extraction or KYC processing and returns to the step before it.
+  const cancelProcessing = () => {
+    processingController.current?.abort();
+    dispatch({ type: "CANCEL" });
+  };
+
+  // Discards the KYC result so the documents can be corrected and re-run.
+  const backToReview = () => {
+    dispatch({ type: "BACK_TO_REVIEW" });
+    showSource(extractionJobId ? { jobId: extractionJobId } : null);
+  };
+
+  // The endpoint is the system of record; the copy in the case history is
+  // best-effort, like the case itself. A case whose first save failed is
+  // saved again with the decision.
+  const recordDecision = async (next: ReviewDecision) => {
+    if (workflow.step !== "result" || !workflow.caseId) {
+      throw new Error("There is no case to decide on.");
+    }
+
+    const { caseId, extractedData, kycResult, completedAt } = workflow;
+    await submitDecision(caseId, next);
+    audit(
+      "decision",
+      {
+        caseId,
+        action: next.action,
+        status: next.status,
+        reasonCodes: next.reasonCodes,
+      },
+      { actor: next.confirmedBy ?? next.reviewer }
+    );
+    dispatch({ type: "DECISION_RECORDED", decision: next });
+    const store = caseStore();
+    store
+      .get(caseId)
+      .then((record) =>
+        record
+          ? store.save(buildCaseRecord({ ...record, decision: next }))
+          : saveToHistory(
+              caseId,
+              extractedData.documents,
+              kycResult,
+              completedAt,
+              next
+            )
+      )
+      .catch((err) => console.error("Case history save error:", err));
+  };
+
+  const generateReport = async (format: ReportFormat) => {
+    if (workflow.step !== "result") return;
+
+    const input = {
+      result: workflow.kycResult,
+      generatedAt: new Date(),
+      completedAt: workflow.completedAt,
+      caseId: workflow.caseId,
+    };
+    try {
+      downloadBlob(
+        await buildReport(format, input),
+        reportFilename(format, input)
+      );
+      audit("export", { format, caseId: currentCaseId });
+    } catch (err) {
+      console.error("Report generation error:", err);
+      dispatch({
+        type: "FAILED",
+        error: { message: "Failed to generate the KYC report", issues: [] },
+      });
+    }
+  };
+
+  // The effects below run when the location or step changes, not when the
+  // handlers they call are recreated, so they read the latest ones from here.
+  const handlers = useRef({
+    resumeJob,
+    openCase,
+    backToReview,
+    cancelProcessing,
+  });
+  useEffect(() => {
+    handlers.current = { resumeJob, openCase, backToReview, cancelProcessing };
+  });
+
+  // A fresh wizard restores the session named in its URL, or starts over at
+  // the upload page.
+  useEffect(() => {
+    const initial = wizardSourceFromParams(
+      new URLSearchParams(window.location.search)
+    );
+    setSource(initial);
+    if (initial) {
+      return "jobId" in initial
+        ? handlers.current.resumeJob(initial.jobId)
+        : handlers.current.openCase(initial.caseId);
+    }
+    if (wizardStepForPath(window.location.pathname) !== "upload") {
+      router.replace(wizardHref("upload", null));
+    }
+  }, [router]);
+
+  // Follows the workflow to the page of its new step. Leaving the transient
+  // analysis page, or going back a step, replaces the history entry so the
+  // browser's back button doesn't land on it.
+  useEffect(() => {
+    if (!page || page === lastPage.current) return;
+    lastPage.current = page;
+
+    const current = wizardStepForPath(window.location.pathname);
+    if (page === current) return;
+    const href = wizardHref(page, source);
+    if (
+      !current ||
+      current === "analysis" ||
+      WIZARD_STEPS.indexOf(page) < WIZARD_STEPS.indexOf(current)
+    ) {
+      router.replace(href);
+    } else {
+      router.push(href);
+    }
+  }, [page, source, router]);
+
+  // Browser back/forward: going back to the review page undoes the KYC run
+  // after it, and a page the workflow hasn't reached redirects to the current
+  // one. Going back to the upload page keeps the session until the user
+  // starts over.
+  useEffect(() => {
+    if (pathPage === lastPathPage.current) return;
+    lastPathPage.current = pathPage;
+    if (!page || !pathPage || page === pathPage) return;
+
+    if (pathPage === "review" && page === "result") {
+      handlers.current.backToReview();
+    } else if (pathPage === "review" && page === "analysis") {
+      handlers.current.cancelProcessing();
+    } else if (pathPage !== "upload") {
+      router.replace(wizardHref(page, source));
+    }
+  }, [pathPage, page, source, router]);
+
+  return (
+    <WizardContext.Provider
+      value={{
+        workflow,
+        source,
+        files,
+        rejectedFiles,
+        uploadStates,
+        progress,
+        processingDetail,
+        addFiles,
+        removeFile,
+        upload,
+        retryUpload,
+        cancelUpload,
+        cancelAllUploads,
+        continueWithUploaded,
+        retryProcessing,
+        cancelProcessing,
+        changeDocumentType,
+        changeDocumentData,
+        runKyc,
+        backToReview,
+        recordDecision,
+        generateReport,
+        reset,
+      }}
+    >
+      {children}
+    </WizardContext.Provider>
+  );
+}
+
+export function useWizard() {
+  const wizard = useContext(WizardContext);
+  if (!wizard) {
+    throw new Error("useWizard must be used inside a WizardProvider");
+  }
+  return wizard;
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import type { ReactNode } from "react";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { AlertCircle, History } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ProcessingStatus } from "@/components/processing-status";
+import { StepIndicator } from "@/components/step-indicator";
+import { UserMenu } from "@/components/user-menu";
+import { useWizard } from "@/components/wizard-provider";
+import {
+  WIZARD_STEP_LABELS,
+  wizardHref,
+  wizardStepFor,
+  wizardStepForPath,
+} from "@/lib/wizard";
+
+export function WorkflowErrorAlert() {
+  const { workflow } = useWizard();
+  const failure = "error" in workflow ? workflow.error : null;
+  if (!failure) return null;
+
+  return (
+    <Alert variant="destructive" className="mt-6">
+      <AlertCircle className="h-5 w-5" />
+      <AlertTitle>Error</AlertTitle>
+      <AlertDescription>
+        <p>{failure.message}</p>
+        {failure.issues.length > 0 && (
+          <ul className="list-disc pl-5 font-mono text-xs">
+            {failure.issues.map((issue) => (
+              <li key={`${issue.path}:${issue.message}`}>
+                {issue.path}: {issue.message}
+              </li>
+            ))}
+          </ul>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+// Shown when the browser goes back to the upload page mid-session: the
+// session is kept until the user chooses to start over.
+function SessionInProgress() {
+  const { workflow, source, reset } = useWizard();
+  const step = wizardStepFor(workflow.step);
+  if (!step) return null;
+
+  return (
+    <CardContent className="p-8">
+      <Alert className="bg-blue-50 border-blue-200">
+        <AlertCircle className="h-5 w-5 text-blue-500" />
+        <AlertTitle className="text-blue-800">
+          A verification is in progress
+        </AlertTitle>
+        <AlertDescription className="text-blue-700">
+          <p>
+            Uploading new documents discards the current session and its
+            results.
+          </p>
+          <div className="flex gap-3 mt-4">
+            <Button asChild variant="outline">
+              <Link href={wizardHref(step, source)}>
+                Continue to {WIZARD_STEP_LABELS[step]}
+              </Link>
+            </Button>
+            <Button onClick={reset} className="bg-blue-600 hover:bg-blue-700">
+              Start Over
+            </Button>
+          </div>
+        </AlertDescription>
+      </Alert>
+    </CardContent>
+  );
+}
+
+// The card around every wizard page. A page only renders while the workflow
+// is on its step; until the provider catches up with a navigation, nothing
+// is shown rather than a page for the wrong step.
+export function WizardShell({ children }: { children: ReactNode }) {
+  const { workflow } = useWizard();
+  const pathname = usePathname();
+  const current = wizardStepFor(workflow.step);
+  const page = wizardStepForPath(pathname);
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 p-6">
+      <Card className="w-full max-w-4xl shadow-xl">
+        <CardHeader className="bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-t-lg">
+          <div className="flex items-start justify-between gap-4">
+            <CardTitle className="text-3xl font-bold">
+              KYC Verification Portal
+            </CardTitle>
+            <div className="flex flex-col items-end gap-2">
+              <UserMenu />
+              <Link
+                href="/cases"
+                className="flex items-center gap-1 text-sm text-blue-100 hover:text-white"
+              >
+                <History className="h-4 w-4" />
+                Case History
+              </Link>
+            </div>
+          </div>
+          <CardDescription className="text-blue-100">
+            Securely upload and verify your documents
+          </CardDescription>
+        </CardHeader>
+
+        <StepIndicator current={current} />
+
+        {!current ? (
+          <ProcessingStatus />
+        ) : current === page ? (
+          children
+        ) : page === "upload" ? (
+          <SessionInProgress />
+        ) : null}
+      </Card>
+
+      <style jsx>{`
+        pre {
+          background: #1a202c;
+          color: #e2e8f0;
+          padding: 1rem;
+          border-radius: 0.5rem;
+          overflow-x: auto;
+          font-size: 0.875rem;
+          line-height: 1.5;
+        }
+        code {
+          font-family: "Fira Code", "Consolas", monospace;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { describe, expect, it } from "vitest";
+import {
+  analysisSections,
+  highestRiskSection,
+  humanizeKey,
+  outcomeTone,
+  registerAnalysisSection,
+  toAnalysisSection,
+} from "@/lib/analysis-sections";
+import { DEFAULT_RISK_BANDS, riskBandFor } from "@/lib/risk-policy";
+import type { KYCResult } from "@/lib/schemas";
+
+const kycResult: KYCResult = {
+  message: "KYC verification successful",
+  kyc_data: {
+    documentData: [],
+    verificationSummary: {
+      identityVerified: true,
+      riskScore: "Low",
+      recommendedAction: "Approve",
+    },
+    SanctionsScreening: { screeningScore: 45, summary: "Possible match" },
+    ComplianceCheck: {
+      ComplianceAnalysis: "All documents present",
+      ComplianceStatus: "Compliant",
+      finalResponse: "SUCCESS",
+    },
+    FraudDetection: {
+      FraudAnalysis: "No signs of tampering",
+      FraudRiskScore: 30,
+      finalResponse: "SUCCESS",
+    },
+  },
+};
+
+const band = (score: number) => riskBandFor(score, DEFAULT_RISK_BANDS);
+
+describe("humanizeKey", () => {
+  it("splits camel case, underscores and hyphens into words", () => {
+    expect(humanizeKey("FraudRiskScore")).toBe("Fraud Risk Score");
+    expect(humanizeKey("sanctions_screening")).toBe("Sanctions Screening");
+    expect(humanizeKey("pep-check")).toBe("Pep Check");
+  });
+});
+
+describe("toAnalysisSection", () => {
+  it("maps a known agent's block with its registered accent", () => {
+    expect(
+      toAnalysisSection(
+        "FraudDetection",
+        kycResult.kyc_data.FraudDetection!,
+        DEFAULT_RISK_BANDS
+      )
+    ).toEqual({
+      key: "FraudDetection",
+      title: "Fraud Detection",
+      accent: "green",
+      verdict: "SUCCESS",
+      score: { label: "Fraud Risk Score", value: 30, band: band(30) },
+      status: null,
+      analysis: "No signs of tampering",
+    });
+  });
+
+  it("reads a status where the agent reports one instead of a score", () => {
+    const section = toAnalysisSection(
+      "ComplianceCheck",
+      kycResult.kyc_data.ComplianceCheck!,
+      DEFAULT_RISK_BANDS
+    );
+    expect(section.accent).toBe("blue");
+    expect(section.score).toBeNull();
+    expect(section.status).toEqual({
+      label: "Compliance Status",
+      value: "Compliant",
+    });
+  });
+
+  it("infers an unknown agent's section from its field names", () => {
+    expect(
+      toAnalysisSection(
+        "SanctionsScreening",
+        { screeningScore: 45, summary: "Possible match" },
+        DEFAULT_RISK_BANDS
+      )
+    ).toEqual({
+      key: "SanctionsScreening",
+      title: "Sanctions Screening",
+      accent: "gray",
+      verdict: null,
+      score: { label: "Screening Score", value: 45, band: band(45) },
+      status: null,
+      analysis: "Possible match",
+    });
+  });
+
+  it("leaves out fields the block lacks or holds no usable value for", () => {
+    const empty = {
+      key: "PepCheck",
+      title: "Pep Check",
+      accent: "gray",
+      verdict: null,
+      score: null,
+      status: null,
+      analysis: null,
+    };
+    expect(toAnalysisSection("PepCheck", {}, DEFAULT_RISK_BANDS)).toEqual(
+      empty
+    );
+    expect(
+      toAnalysisSection(
+        "PepCheck",
+        { verdict: " ", matchScore: 140, status: 3, details: null },
+        DEFAULT_RISK_BANDS
+      )
+    ).toEqual(empty);
+  });
+
+  it("applies a registered definition's title and mapping", () => {
+    registerAnalysisSection({
+      key: "AddressCheck",
+      title: "Address Verification",
+      map: (block) => ({ verdict: block.matched ? "PASS" : "FAIL" }),
+    });
+    const section = toAnalysisSection(
+      "AddressCheck",
+      { matched: false },
+      DEFAULT_RISK_BANDS
+    );
+    expect(section.title).toBe("Address Verification");
+    expect(section.verdict).toBe("FAIL");
+  });
+});
+
+describe("analysisSections", () => {
+  it("lists registered sections first, then unknown ones in backend order", () => {
+    expect(
+      analysisSections(kycResult, DEFAULT_RISK_BANDS).map(
+        (section) => section.key
+      )
+    ).toEqual(["FraudDetection", "ComplianceCheck", "SanctionsScreening"]);
+  });
+
+  it("skips the document data, summary, hidden sections and non-objects", () => {
+    registerAnalysisSection({ key: "InternalTrace", hidden: true });
+    const result: KYCResult = {
+      ...kycResult,
+      kyc_data: {
+        ...kycResult.kyc_data,
+        InternalTrace: { score: 10 },
+        ModelVersion: "v2",
+        Warnings: ["blurry"],
+        Skipped: null,
+      },
+    };
+    expect(
+      analysisSections(result, DEFAULT_RISK_BANDS).map((section) => section.key)
+    ).toEqual(["FraudDetection", "ComplianceCheck", "SanctionsScreening"]);
+  });
+
+  it("returns nothing for a result without analysis blocks", () => {
+    const { documentData, verificationSummary } = kycResult.kyc_data;
+    expect(
+      analysisSections(
+        { ...kycResult, kyc_data: { documentData, verificationSummary } },
+        DEFAULT_RISK_BANDS
+      )
+    ).toEqual([]);
+  });
+});
+
+describe("highestRiskSection", () => {
+  it("picks the section with the highest score", () => {
+    const sections = analysisSections(kycResult, DEFAULT_RISK_BANDS);
+    expect(highestRiskSection(sections)?.key).toBe("SanctionsScreening");
+  });
+
+  it("is null when no section has a score", () => {
+    const sections = [
+      toAnalysisSection("PepCheck", { status: "Clear" }, DEFAULT_RISK_BANDS),
+    ];
+    expect(highestRiskSection(sections)).toBeNull();
+    expect(highestRiskSection([])).toBeNull();
+  });
+});
+
+describe("outcomeTone", () => {
+  it("treats success-like values as a pass and anything else as a fail", () => {
+    expect(outcomeTone("SUCCESS")).toBe("pass");
+    expect(outcomeTone(" Compliant ")).toBe("pass");
+    expect(outcomeTone("Passed")).toBe("pass");
+    expect(outcomeTone("FAILURE")).toBe("fail");
+    expect(outcomeTone("Needs review")).toBe("fail");
+  });
+});
@@ -0,0 +1,179 @@
+import { getRiskBands, riskBandFor, type RiskBand } from "@/lib/risk-policy";
+import type { KYCResult } from "@/lib/schemas";
+
+export type AnalysisTone = "pass" | "fail";
+
+export type AnalysisAccent = "green" | "yellow" | "blue" | "gray";
+
+interface ScoreField {
+  label: string;
+  value: number;
+}
+
+// What every analysis agent's block in `kyc_data` is shown as, whatever its
+// own field names are.
+export interface AnalysisSection {
+  key: string;
+  title: string;
+  accent: AnalysisAccent;
+  verdict: string | null;
+  score: (ScoreField & { band: RiskBand }) | null;
+  status: { label: string; value: string } | null;
+  analysis: string | null;
+}
+
+type AnalysisBlock = Record<string, unknown>;
+
+// A section before its score is placed in a risk band.
+type InferredSection = Omit<AnalysisSection, "score"> & {
+  score: ScoreField | null;
+};
+
+// Overrides for one `kyc_data` key. Anything not set is inferred from the
+// block, so a new agent shows up without a definition.
+export interface AnalysisSectionDefinition {
+  key: string;
+  title?: string;
+  accent?: AnalysisAccent;
+  hidden?: boolean;
+  map?: (block: AnalysisBlock) => Partial<Omit<InferredSection, "key">>;
+}
+
+// `kyc_data` keys that hold something other than an agent's analysis.
+const NON_SECTION_KEYS = ["documentData", "verificationSummary"];
+
+const VERDICT_KEY = /^(final_?response|verdict|result|outcome)$/i;
+const SCORE_KEY = /score$/i;
+const STATUS_KEY = /status$/i;
+const ANALYSIS_KEY = /(analysis|summary|details?|reason(ing)?|explanation)$/i;
+
+const PASS_VALUES =
+  /^(success|pass(ed)?|clear|ok|compliant|verified|completed?)$/i;
+
+const definitions = new Map<string, AnalysisSectionDefinition>();
+
+export function registerAnalysisSection(definition: AnalysisSectionDefinition) {
+  definitions.set(definition.key, definition);
+}
+
+registerAnalysisSection({ key: "FraudDetection", accent: "green" });
+registerAnalysisSection({ key: "RiskAssessment", accent: "yellow" });
+registerAnalysisSection({ key: "ComplianceCheck", accent: "blue" });
+
+// "FraudRiskScore" → "Fraud Risk Score", "sanctions_screening" → "Sanctions
+// Screening".
+export function humanizeKey(key: string): string {
+  return key
+    .replace(/[_-]+/g, " ")
+    .replace(/([a-z\d])([A-Z])/g, "$1 $2")
+    .trim()
+    .replace(/\b\w/g, (char) => char.toUpperCase());
+}
+
+function isBlock(value: unknown): value is AnalysisBlock {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function findField<T>(
+  block: AnalysisBlock,
+  pattern: RegExp,
+  accept: (value: unknown) => value is T
+): [string, T] | null {
+  for (const [key, value] of Object.entries(block)) {
+    if (pattern.test(key) && accept(value)) {
+      return [key, value];
+    }
+  }
+  return null;
+}
+
+const isText = (value: unknown): value is string =>
+  typeof value === "string" && value.trim() !== "";
+
+// Scores are out of 100, like the schema's known scores.
+const isScore = (value: unknown): value is number =>
+  typeof value === "number" && value >= 0 && value <= 100;
+
+function inferSection(key: string, block: AnalysisBlock): InferredSection {
+  const verdict = findField(block, VERDICT_KEY, isText);
+  const score = findField(block, SCORE_KEY, isScore);
+  const status = findField(block, STATUS_KEY, isText);
+  const analysis = findField(block, ANALYSIS_KEY, isText);
+  return {
+    key,
+    title: humanizeKey(key),
+    accent: "gray",
+    verdict: verdict?.[1] ?? null,
+    score: score && { label: humanizeKey(score[0]), value: score[1] },
+    status: status && { label: humanizeKey(status[0]), value: status[1] },
+    analysis: analysis?.[1] ?? null,
+  };
+}
+
+// Scores are placed in a band of the risk policy in force.
+export function toAnalysisSection(
+  key: string,
+  block: AnalysisBlock,
+  bands: RiskBand[] = getRiskBands()
+): AnalysisSection {
+  const definition = definitions.get(key);
+  const section = {
+    ...inferSection(key, block),
+    ...(definition?.title && { title: definition.title }),
+    ...(definition?.accent && { accent: definition.accent }),
+    ...definition?.map?.(block),
+    key,
+  };
+  return {
+    ...section,
+    score: section.score && {
+      ...section.score,
+      band: riskBandFor(section.score.value, bands),
+    },
+  };
+}
+
+// Every analysis block in the result: registered sections first, in
+// registration order, then any others in the order the backend sent them.
+export function analysisSections(
+  result: KYCResult,
+  bands: RiskBand[] = getRiskBands()
+): AnalysisSection[] {
+  const { kyc_data } = result;
+  const registered = [...definitions.keys()];
+  const keys = [
+    ...registered.filter((key) => key in kyc_data),
+    ...Object.keys(kyc_data).filter((key) => !definitions.has(key)),
+  ];
+
+  return keys.flatMap((key) => {
+    const block: unknown = kyc_data[key];
+    if (
+      NON_SECTION_KEYS.includes(key) ||
+      definitions.get(key)?.hidden ||
+      !isBlock(block)
+    ) {
+      return [];
+    }
+    return [toAnalysisSection(key, block, bands)];
+  });
+}
+
+// For verdicts and statuses, e.g. "SUCCESS" or "Compliant".
+export function outcomeTone(value: string): AnalysisTone {
+  return PASS_VALUES.test(value.trim()) ? "pass" : "fail";
+}
+
+// The section with the highest score; its band is the result's overall risk.
+export function highestRiskSection(
+  sections: AnalysisSection[]
+): AnalysisSection | null {
+  return sections.reduce<AnalysisSection | null>(
+    (highest, section) =>
+      section.score &&
+      (!highest?.score || section.score.value > highest.score.value)
+        ? section
+        : highest,
+    null
+  );
+}
@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  appendAuditEvent,
+  getAuditLog,
+  verifyAuditLog,
+  type AuditEvent,
+} from "@/lib/audit-log";
+
+function memoryStorage() {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+}
+
+async function writeLog(): Promise<AuditEvent[]> {
+  const options = { actor: "asha", now: new Date("2025-01-01T00:00:00Z") };
+  await appendAuditEvent(
+    "export",
+    { format: "pdf", caseId: "case-1" },
+    options
+  );
+  await appendAuditEvent(
+    "field_edit",
+    { documentId: "doc-1", kind: "data", paths: ["name"] },
+    options
+  );
+  await appendAuditEvent("reset", { caseId: "case-1" }, options);
+  return getAuditLog();
+}
+
+describe("verifyAuditLog", () => {
+  beforeEach(() => {
+    vi.stubGlobal("window", { localStorage: memoryStorage() });
+    return () => vi.unstubAllGlobals();
+  });
+
+  it("accepts an untouched log", async () => {
+    const events = await writeLog();
+    expect(events.map((event) => event.seq)).toEqual([1, 2, 3]);
+    expect(await verifyAuditLog(events)).toEqual({ valid: true, count: 3 });
+  });
+
+  it("accepts an empty log", async () => {
+    expect(await verifyAuditLog([])).toEqual({ valid: true, count: 0 });
+  });
+
+  it("detects an edited entry", async () => {
+    const events = await writeLog();
+    const edited = events.map((event) =>
+      event.seq === 2 ? { ...event, actor: "ravi" } : event
+    );
+    expect(await verifyAuditLog(edited)).toEqual({
+      valid: false,
+      seq: 2,
+      reason: "Contents do not match the recorded hash",
+    });
+  });
+
+  it("detects a removed entry", async () => {
+    const events = await writeLog();
+    expect(
+      await verifyAuditLog(events.filter((event) => event.seq !== 2))
+    ).toMatchObject({ valid: false, seq: 3 });
+  });
+
+  it("detects reordered entries", async () => {
+    const [first, second, third] = await writeLog();
+    expect(await verifyAuditLog([first, third, second])).toMatchObject({
+      valid: false,
+      seq: 3,
+    });
+  });
+
+  it("detects renumbered entries", async () => {
+    const [first, , third] = await writeLog();
+    expect(await verifyAuditLog([first, { ...third, seq: 2 }])).toEqual({
+      valid: false,
+      seq: 2,
+      reason: "Does not link to the previous event",
+    });
+  });
+});
@@ -0,0 +1,257 @@
+import type { DecisionAction, ReviewDecision } from "@/lib/schemas";
+
+// Details carried by each event type. They never include extracted values, so
+// the log can be exported without masking: edits record paths, not data.
+export interface AuditEventDetails {
+  upload: {
+    documentId: string;
+    filename: string;
+    size: number;
+    mimeType: string;
+    sha256: string;
+    status: "uploaded" | "failed" | "cancelled";
+    error?: string;
+  };
+  process_docs: {
+    phase: "started" | "completed" | "failed" | "cancelled";
+    documentIds: string[];
+    jobId?: string | null;
+    error?: string;
+  };
+  process_kyc: {
+    phase: "started" | "completed" | "failed" | "cancelled";
+    documentIds: string[];
+    jobId?: string | null;
+    caseId?: string | null;
+    error?: string;
+  };
+  field_edit: {
+    documentId: string;
+    kind: "data" | "type";
+    paths: string[];
+  };
+  json_toggle: {
+    view: string;
+    shown: boolean;
+  };
+  pii_reveal: {
+    scope: string;
+    expiresAt: string;
+  };
+  decision: {
+    caseId: string;
+    action: DecisionAction;
+    status: ReviewDecision["status"];
+    reasonCodes: string[];
+  };
+  export: {
+    format: string;
+    caseId: string | null;
+  };
+  reset: {
+    caseId: string | null;
+  };
+}
+
+export type AuditEventType = keyof AuditEventDetails;
+
+export const AUDIT_EVENT_LABELS: Record<AuditEventType, string> = {
+  upload: "Upload",
+  process_docs: "Document extraction",
+  process_kyc: "KYC processing",
+  field_edit: "Field edit",
+  json_toggle: "Raw JSON toggled",
+  pii_reveal: "Personal data revealed",
+  decision: "Decision",
+  export: "Export",
+  reset: "Reset",
+};
+
+interface AuditEventOf<T extends AuditEventType> {
+  seq: number;
+  type: T;
+  at: string;
+  actor: string;
+  details: AuditEventDetails[T];
+  // SHA-256 of the previous event, chaining each event to the whole history
+  // before it; `hash` covers every other field of this event.
+  prevHash: string;
+  hash: string;
+}
+
+export type AuditEvent = {
+  [T in AuditEventType]: AuditEventOf<T>;
+}[AuditEventType];
+
+export interface AuditLogExport {
+  version: 1;
+  exportedAt: string;
+  events: AuditEvent[];
+}
+
+export type AuditVerification =
+  | { valid: true; count: number }
+  | { valid: false; seq: number; reason: string };
+
+const STORAGE_KEY = "kyc-portal.audit-log";
+const GENESIS_HASH = "0".repeat(64);
+const DEFAULT_ACTOR = "anonymous";
+
+let currentActor: string | null = null;
+
+// Who subsequent events are attributed to, e.g. the signed-in user.
+export function setAuditActor(actor: string | null) {
+  currentActor = actor;
+}
+
+export function getAuditActor(): string {
+  return currentActor || DEFAULT_ACTOR;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+export async function sha256Hex(data: BufferSource | string): Promise<string> {
+  const bytes =
+    typeof data === "string" ? new TextEncoder().encode(data) : data;
+  return toHex(await crypto.subtle.digest("SHA-256", bytes));
+}
+
+export async function hashFile(file: Blob): Promise<string> {
+  return sha256Hex(await file.arrayBuffer());
+}
+
+// JSON with object keys sorted, so a hash doesn't depend on key order.
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    return `{${Object.entries(value)
+      .filter(([, child]) => child !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, child]) => `${JSON.stringify(key)}:${canonicalJson(child)}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function eventHash(event: Omit<AuditEvent, "hash">): Promise<string> {
+  const { seq, type, at, actor, details, prevHash } = event;
+  return sha256Hex(canonicalJson({ seq, type, at, actor, details, prevHash }));
+}
+
+function readEvents(): AuditEvent[] {
+  const stored = window.localStorage.getItem(STORAGE_KEY);
+  return stored ? (JSON.parse(stored) as AuditEvent[]) : [];
+}
+
+export function getAuditLog(): AuditEvent[] {
+  return typeof window === "undefined" ? [] : readEvents();
+}
+
+const LOCK_NAME = "kyc-portal.audit-log";
+
+// Runs `task` holding a Web Lock shared by every tab of the portal, so two
+// tabs never read the same last event and both link to it.
+function withLogLock<T>(task: () => Promise<T>): Promise<T> {
+  return typeof navigator !== "undefined" && navigator.locks
+    ? navigator.locks.request(LOCK_NAME, task)
+    : task();
+}
+
+// Appends run one at a time so each event links to the one before it: in
+// order within a tab, and under the log lock across tabs.
+let appendQueue: Promise<unknown> = Promise.resolve();
+
+export function appendAuditEvent<T extends AuditEventType>(
+  type: T,
+  details: AuditEventDetails[T],
+  { actor = getAuditActor(), now = new Date() } = {}
+): Promise<AuditEvent> {
+  const append = async () => {
+    const events = readEvents();
+    const last = events[events.length - 1];
+    const unsigned = {
+      seq: last ? last.seq + 1 : 1,
+      type,
+      at: now.toISOString(),
+      actor,
+      details,
+      prevHash: last?.hash ?? GENESIS_HASH,
+    } as Omit<AuditEvent, "hash">;
+    const event = {
+      ...unsigned,
+      hash: await eventHash(unsigned),
+    } as AuditEvent;
+    window.localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify([...events, event])
+    );
+    return event;
+  };
+
+  const result = appendQueue.then(() => withLogLock(append));
+  appendQueue = result.catch(() => undefined);
+  return result;
+}
+
+// Fire-and-forget form for UI handlers: a failure to audit is logged but
+// never blocks the action being audited.
+export function audit<T extends AuditEventType>(
+  type: T,
+  details: AuditEventDetails[T],
+  options?: { actor?: string }
+) {
+  appendAuditEvent(type, details, options).catch((err) =>
+    console.error("Audit log error:", err)
+  );
+}
+
+// Recomputes every hash and link. The first broken event is reported, since
+// everything after it can no longer be trusted.
+export async function verifyAuditLog(
+  events: AuditEvent[]
+): Promise<AuditVerification> {
+  let prevHash = GENESIS_HASH;
+  for (const [index, event] of events.entries()) {
+    if (event.seq !== index + 1) {
+      return {
+        valid: false,
+        seq: event.seq,
+        reason: `Expected event ${index + 1}; events are missing or reordered`,
+      };
+    }
+    if (event.prevHash !== prevHash) {
+      return {
+        valid: false,
+        seq: event.seq,
+        reason: "Does not link to the previous event",
+      };
+    }
+    if ((await eventHash(event)) !== event.hash) {
+      return {
+        valid: false,
+        seq: event.seq,
+        reason: "Contents do not match the recorded hash",
+      };
+    }
+    prevHash = event.hash;
+  }
+  return { valid: true, count: events.length };
+}
+
+export function buildAuditExport(now = new Date()): AuditLogExport {
+  return { version: 1, exportedAt: now.toISOString(), events: getAuditLog() };
+}
+
+export function parseAuditExport(text: string): AuditEvent[] {
+  const parsed = JSON.parse(text) as Partial<AuditLogExport>;
+  if (!Array.isArray(parsed.events)) {
+    throw new Error("This file is not an exported audit log.");
+  }
+  return parsed.events;
+}
@@ -0,0 +1,83 @@
+import { ROLES, type Role, type SessionUser } from "@/lib/auth";
+
+export interface Credentials {
+  username: string;
+  password: string;
+}
+
+// Checks a login and says who it is. A real deployment registers its own
+// provider (SSO, LDAP, ...) and selects it with `KYC_AUTH_PROVIDER`.
+export interface AuthProvider {
+  id: string;
+  authenticate(credentials: Credentials): Promise<SessionUser | null>;
+}
+
+interface LocalUser extends SessionUser {
+  password: string;
+}
+
+// Dev and test only: one user per role, password = username.
+const DEV_USERS: LocalUser[] = ROLES.map((role) => ({
+  username: role,
+  password: role,
+  name: `Demo ${role[0].toUpperCase()}${role.slice(1)}`,
+  role,
+}));
+
+function isLocalUser(value: unknown): value is LocalUser {
+  const user = value as Partial<LocalUser>;
+  return (
+    typeof user?.username === "string" &&
+    typeof user.password === "string" &&
+    typeof user.name === "string" &&
+    ROLES.includes(user.role as Role)
+  );
+}
+
+// Users come from `KYC_LOCAL_USERS` (a JSON array of
+// `{ username, password, name, role }`). Outside production the demo users
+// are used when it is unset.
+function localUsers(): LocalUser[] {
+  const configured = process.env.KYC_LOCAL_USERS;
+  if (!configured) {
+    return process.env.NODE_ENV === "production" ? [] : DEV_USERS;
+  }
+
+  const parsed: unknown = JSON.parse(configured);
+  if (!Array.isArray(parsed) || !parsed.every(isLocalUser)) {
+    throw new Error("KYC_LOCAL_USERS must be a JSON array of users");
+  }
+  return parsed;
+}
+
+// A stand-in for a real identity provider. Passwords are compared in plain
+// text, so it must not hold real credentials.
+export const localCredentialsProvider: AuthProvider = {
+  id: "local",
+  async authenticate({ username, password }) {
+    const user = localUsers().find(
+      (candidate) =>
+        candidate.username === username && candidate.password === password
+    );
+    return user
+      ? { username: user.username, name: user.name, role: user.role }
+      : null;
+  },
+};
+
+const providers = new Map<string, AuthProvider>([
+  [localCredentialsProvider.id, localCredentialsProvider],
+]);
+
+export function registerAuthProvider(provider: AuthProvider) {
+  providers.set(provider.id, provider);
+}
+
+export function getAuthProvider(): AuthProvider {
+  const id = process.env.KYC_AUTH_PROVIDER || localCredentialsProvider.id;
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Unknown auth provider "${id}"`);
+  }
+  return provider;
+}
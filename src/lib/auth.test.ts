@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createSessionToken,
+  SESSION_TTL_MS,
+  verifySessionToken,
+  type SessionUser,
+} from "@/lib/auth";
+
+const user: SessionUser = {
+  username: "asha",
+  name: "Asha Rao",
+  role: "reviewer",
+};
+const now = Date.UTC(2025, 0, 1);
+
+function encode(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+describe("session tokens", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("verifies a token it signed", async () => {
+    const token = await createSessionToken(user, now);
+    expect(await verifySessionToken(token, now + 1000)).toEqual({
+      ...user,
+      expiresAt: now + SESSION_TTL_MS,
+    });
+  });
+
+  it("rejects a tampered signature", async () => {
+    const token = await createSessionToken(user, now);
+    const [payload, signature] = token.split(".");
+    const flipped = `${signature[0] === "A" ? "B" : "A"}${signature.slice(1)}`;
+    expect(await verifySessionToken(`${payload}.${flipped}`, now)).toBeNull();
+  });
+
+  it("rejects a payload changed after signing", async () => {
+    const token = await createSessionToken(user, now);
+    const [, signature] = token.split(".");
+    const promoted = encode({
+      ...user,
+      role: "supervisor",
+      expiresAt: now + SESSION_TTL_MS,
+    });
+    expect(
+      await verifySessionToken(`${promoted}.${signature}`, now)
+    ).toBeNull();
+  });
+
+  it("rejects an expired token", async () => {
+    const token = await createSessionToken(user, now);
+    expect(await verifySessionToken(token, now + SESSION_TTL_MS)).toBeNull();
+  });
+
+  it("rejects a signed token with an unknown role", async () => {
+    const token = await createSessionToken(
+      { ...user, role: "admin" as SessionUser["role"] },
+      now
+    );
+    expect(await verifySessionToken(token, now)).toBeNull();
+  });
+
+  it("rejects a token signed with another secret", async () => {
+    vi.stubEnv("KYC_AUTH_SECRET", "first-secret");
+    const token = await createSessionToken(user, now);
+    vi.stubEnv("KYC_AUTH_SECRET", "second-secret");
+    expect(await verifySessionToken(token, now)).toBeNull();
+  });
+
+  it("rejects missing and malformed tokens", async () => {
+    expect(await verifySessionToken(undefined, now)).toBeNull();
+    expect(await verifySessionToken("not-a-token", now)).toBeNull();
+    expect(await verifySessionToken("a.b.c", now)).toBeNull();
+  });
+
+  it("refuses to sign without a secret in production", async () => {
+    vi.stubEnv("KYC_AUTH_SECRET", "");
+    vi.stubEnv("NODE_ENV", "production");
+    await expect(createSessionToken(user, now)).rejects.toThrow(
+      "KYC_AUTH_SECRET must be set in production"
+    );
+  });
+});
@@ -0,0 +1,182 @@
+// Roles, permissions and the signed session cookie. Kept free of Node-only
+// APIs so the middleware (edge runtime) can verify sessions too.
+
+export const ROLES = ["agent", "reviewer", "supervisor", "auditor"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  agent: "Agent",
+  reviewer: "Reviewer",
+  supervisor: "Supervisor",
+  auditor: "Auditor",
+};
+
+export const PERMISSIONS = [
+  "upload_documents",
+  "run_kyc",
+  "edit_documents",
+  "reveal_pii",
+  "decide",
+  "approve",
+  "save_cases",
+  "manage_cases",
+  "view_audit_log",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  agent: ["upload_documents", "run_kyc", "edit_documents", "save_cases"],
+  reviewer: ["edit_documents", "reveal_pii", "decide", "approve", "save_cases"],
+  supervisor: PERMISSIONS,
+  auditor: ["reveal_pii", "view_audit_log"],
+};
+
+export function hasPermission(
+  role: Role | null | undefined,
+  permission: Permission
+): boolean {
+  return role ? ROLE_PERMISSIONS[role].includes(permission) : false;
+}
+
+export interface SessionUser {
+  username: string;
+  name: string;
+  role: Role;
+}
+
+export interface Session extends SessionUser {
+  // Expiry, in milliseconds since the epoch.
+  expiresAt: number;
+}
+
+export const SESSION_COOKIE = "kyc_session";
+export const SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+
+// Identity headers the middleware sets on proxied API requests, replacing
+// anything the browser sent, so the backend can attribute and authorise.
+export const USER_HEADER = "x-kyc-user";
+export const ROLE_HEADER = "x-kyc-role";
+
+const DEV_SECRET = "kyc-portal-dev-secret";
+
+function getAuthSecret(): string {
+  const secret = process.env.KYC_AUTH_SECRET;
+  if (secret) {
+    return secret;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("KYC_AUTH_SECRET must be set in production");
+  }
+  return DEV_SECRET;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function signingKey(usage: "sign" | "verify"): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(getAuthSecret()),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    [usage]
+  );
+}
+
+// `<payload>.<signature>`, both base64url; the payload is the session JSON.
+export async function createSessionToken(
+  user: SessionUser,
+  now = Date.now()
+): Promise<string> {
+  const session: Session = { ...user, expiresAt: now + SESSION_TTL_MS };
+  const payload = new TextEncoder().encode(JSON.stringify(session));
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await signingKey("sign"),
+    payload
+  );
+  return `${toBase64Url(payload)}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// Null for a missing, tampered, malformed or expired token.
+export async function verifySessionToken(
+  token: string | undefined,
+  now = Date.now()
+): Promise<Session | null> {
+  const [encodedPayload, encodedSignature, ...rest] = token?.split(".") ?? [];
+  if (!encodedPayload || !encodedSignature || rest.length > 0) {
+    return null;
+  }
+
+  try {
+    const payload = fromBase64Url(encodedPayload);
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await signingKey("verify"),
+      fromBase64Url(encodedSignature),
+      payload
+    );
+    if (!valid) {
+      return null;
+    }
+
+    const session = JSON.parse(new TextDecoder().decode(payload)) as Session;
+    if (!ROLES.includes(session.role) || session.expiresAt <= now) {
+      return null;
+    }
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+interface RoutePermission {
+  path: RegExp;
+  methods?: string[];
+  permission: Permission;
+}
+
+// Server-side gates, checked by the middleware before a request reaches a
+// page or the proxy. The UI hides the same actions, but this is what holds.
+const ROUTE_PERMISSIONS: RoutePermission[] = [
+  { path: /^\/api\/upload$/, permission: "upload_documents" },
+  { path: /^\/api\/process-docs$/, permission: "upload_documents" },
+  { path: /^\/api\/process-kyc$/, permission: "run_kyc" },
+  { path: /^\/api\/decisions$/, permission: "decide" },
+  // Saving a case also stores its decision, so only roles that produce one
+  // may write.
+  {
+    path: /^\/api\/cases\/[^/]+$/,
+    methods: ["PUT"],
+    permission: "save_cases",
+  },
+  {
+    path: /^\/api\/cases\/[^/]+$/,
+    methods: ["DELETE"],
+    permission: "manage_cases",
+  },
+  { path: /^\/audit$/, permission: "view_audit_log" },
+];
+
+export function requiredPermission(
+  pathname: string,
+  method: string
+): Permission | null {
+  const rule = ROUTE_PERMISSIONS.find(
+    (candidate) =>
+      candidate.path.test(pathname) &&
+      (!candidate.methods || candidate.methods.includes(method))
+  );
+  return rule?.permission ?? null;
+}
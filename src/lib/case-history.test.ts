@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { buildCaseRecord, UNDECIDED_OUTCOME } from "@/lib/case-history";
+import type { KYCResult, ReviewDecision } from "@/lib/schemas";
+
+const kycResult: KYCResult = {
+  message: "KYC verification successful",
+  kyc_data: {
+    documentData: [],
+    verificationSummary: {
+      identityVerified: true,
+      riskScore: "Low",
+      recommendedAction: "Approve",
+    },
+    RiskAssessment: {
+      RiskAnalysis: "",
+      RiskScore: 20,
+      finalResponse: "SUCCESS",
+    },
+    SanctionsScreening: { screeningScore: 45, summary: "Possible match" },
+  },
+};
+
+const decision: ReviewDecision = {
+  action: "reject",
+  reasonCodes: ["SANCTIONS_HIT"],
+  notes: "",
+  reviewer: "asha",
+  decidedAt: "2025-01-02T03:04:05.000Z",
+  status: "final",
+  confirmedBy: null,
+  confirmedAt: null,
+};
+
+function record(fields: Partial<Parameters<typeof buildCaseRecord>[0]> = {}) {
+  return buildCaseRecord({
+    id: "case-1",
+    startedAt: null,
+    completedAt: "2025-01-02T03:00:00.000Z",
+    files: [],
+    documents: [],
+    kycResult,
+    extractionJobId: null,
+    ...fields,
+  });
+}
+
+describe("buildCaseRecord", () => {
+  it("takes the outcome from the reviewer's decision", () => {
+    expect(record().outcome).toBe(UNDECIDED_OUTCOME);
+    expect(record({ decision }).outcome).toBe("Reject");
+    expect(
+      record({
+        decision: {
+          ...decision,
+          action: "approve",
+          status: "pending_confirmation",
+        },
+      }).outcome
+    ).toBe("Approve (awaiting confirmation)");
+  });
+
+  it("takes the risk score from the highest-scoring analysis section", () => {
+    expect(record().riskScore).toBe(45);
+  });
+
+  it("has no risk score without scored sections", () => {
+    const { RiskAssessment, SanctionsScreening, ...rest } = kycResult.kyc_data;
+    expect(
+      record({ kycResult: { ...kycResult, kyc_data: rest } }).riskScore
+    ).toBeNull();
+  });
+});
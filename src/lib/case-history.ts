@@ -0,0 +1,204 @@
+import { analysisSections, highestRiskSection } from "@/lib/analysis-sections";
+import { fieldValue } from "@/lib/consistency";
+import { deleteCase, getCase, listCases, saveCase } from "@/lib/kyc-api";
+import { DECISION_LABELS } from "@/lib/review-decision";
+import type { CaseRecord, ReviewDecision } from "@/lib/schemas";
+
+export interface CaseStore {
+  list(): Promise<CaseRecord[]>;
+  get(id: string): Promise<CaseRecord | null>;
+  save(record: CaseRecord): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export type CaseStoreKind = "indexeddb" | "server";
+
+// Each user gets a database of their own, deleted when they sign out, so
+// the unmasked documents in one user's cases are never shown to the next user
+// of the same browser. Cases saved before this were kept in `LEGACY_DB_NAME`.
+const DB_NAME_PREFIX = "kyc-portal.cases.";
+const LEGACY_DB_NAME = "kyc-portal";
+const DB_VERSION = 1;
+const CASES_STORE = "cases";
+const ANONYMOUS_OWNER = "anonymous";
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function databaseName(owner: string | null): string {
+  return `${DB_NAME_PREFIX}${encodeURIComponent(owner || ANONYMOUS_OWNER)}`;
+}
+
+const databases = new Map<string, Promise<IDBDatabase>>();
+
+function openDatabase(name: string): Promise<IDBDatabase> {
+  let database = databases.get(name);
+  if (!database) {
+    const request = indexedDB.open(name, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(CASES_STORE, {
+        keyPath: "id",
+      });
+      store.createIndex("completedAt", "completedAt");
+    };
+    database = promisify(request).catch((err) => {
+      databases.delete(name);
+      throw err;
+    });
+    databases.set(name, database);
+  }
+  return database;
+}
+
+async function casesStore(
+  name: string,
+  mode: IDBTransactionMode
+): Promise<IDBObjectStore> {
+  const db = await openDatabase(name);
+  return db.transaction(CASES_STORE, mode).objectStore(CASES_STORE);
+}
+
+async function deleteDatabase(name: string): Promise<void> {
+  const open = databases.get(name);
+  databases.delete(name);
+  (await open?.catch(() => null))?.close();
+  await promisify(indexedDB.deleteDatabase(name));
+}
+
+// Keeps `owner`'s cases in their own browser, so history works offline and
+// without any backend support.
+export function createIndexedDbCaseStore(owner: string | null): CaseStore {
+  const name = databaseName(owner);
+  return {
+    async list() {
+      const store = await casesStore(name, "readonly");
+      return promisify<CaseRecord[]>(store.getAll());
+    },
+    async get(id) {
+      const store = await casesStore(name, "readonly");
+      return (await promisify<CaseRecord | undefined>(store.get(id))) ?? null;
+    },
+    async save(record) {
+      const store = await casesStore(name, "readwrite");
+      await promisify(store.put(record));
+    },
+    async remove(id) {
+      const store = await casesStore(name, "readwrite");
+      await promisify(store.delete(id));
+    },
+  };
+}
+
+// Deletes `owner`'s cases from this browser, and any saved before cases were
+// kept per user. Called on sign-out; cases on the server are left alone.
+export async function clearLocalCases(owner: string | null): Promise<void> {
+  await Promise.all([
+    deleteDatabase(databaseName(owner)),
+    deleteDatabase(LEGACY_DB_NAME),
+  ]);
+}
+
+export function createServerCaseStore(): CaseStore {
+  return {
+    list: listCases,
+    get: getCase,
+    save: saveCase,
+    remove: deleteCase,
+  };
+}
+
+// IndexedDB unless `window.__KYC_CONFIG__.caseStore` or
+// `NEXT_PUBLIC_KYC_CASE_STORE` selects the server. `owner` is the signed-in
+// user; the server scopes cases by session instead.
+export function getCaseStore(owner: string | null): CaseStore {
+  const kind =
+    (typeof window !== "undefined" && window.__KYC_CONFIG__?.caseStore) ||
+    process.env.NEXT_PUBLIC_KYC_CASE_STORE;
+  return kind === "server"
+    ? createServerCaseStore()
+    : createIndexedDbCaseStore(owner);
+}
+
+export interface CaseFilter {
+  query?: string;
+  outcome?: string;
+  minRisk?: number;
+  maxRisk?: number;
+  // Inclusive calendar days, as YYYY-MM-DD from a date input.
+  from?: string;
+  to?: string;
+}
+
+// Text searched by the free-text filter: case ID, filenames and holder names.
+function searchText(record: CaseRecord): string {
+  return [
+    record.id,
+    ...record.files.map((file) => file.filename),
+    ...record.documents.map((doc) => fieldValue(doc, "name") ?? ""),
+  ]
+    .join(" ")
+    .toLowerCase();
+}
+
+function localDay(iso: string): string {
+  const date = new Date(iso);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}`;
+}
+
+// Newest first. Cases without a risk score are excluded by a risk range.
+export function filterCases(
+  records: CaseRecord[],
+  filter: CaseFilter
+): CaseRecord[] {
+  const query = filter.query?.trim().toLowerCase();
+  return records
+    .filter((record) => {
+      if (query && !searchText(record).includes(query)) return false;
+      if (filter.outcome && record.outcome !== filter.outcome) return false;
+      if (filter.minRisk !== undefined || filter.maxRisk !== undefined) {
+        if (record.riskScore === null) return false;
+        if (filter.minRisk !== undefined && record.riskScore < filter.minRisk)
+          return false;
+        if (filter.maxRisk !== undefined && record.riskScore > filter.maxRisk)
+          return false;
+      }
+      const day = localDay(record.completedAt);
+      if (filter.from && day < filter.from) return false;
+      if (filter.to && day > filter.to) return false;
+      return true;
+    })
+    .sort((a, b) => b.completedAt.localeCompare(a.completedAt));
+}
+
+// Shown for a case until a reviewer records a decision on it.
+export const UNDECIDED_OUTCOME = "Awaiting decision";
+
+function decisionOutcome(decision: ReviewDecision): string {
+  const label = DECISION_LABELS[decision.action];
+  return decision.status === "pending_confirmation"
+    ? `${label} (awaiting confirmation)`
+    : label;
+}
+
+// Outcome and risk score are denormalised so the list can be filtered without
+// re-reading every result. The outcome is the reviewer's decision, not the
+// backend's recommendation; the risk score is the highest analysis score.
+export function buildCaseRecord(
+  fields: Omit<CaseRecord, "outcome" | "riskScore">
+): CaseRecord {
+  const highest = highestRiskSection(analysisSections(fields.kycResult));
+  return {
+    ...fields,
+    outcome: fields.decision
+      ? decisionOutcome(fields.decision)
+      : UNDECIDED_OUTCOME,
+    riskScore: highest?.score?.value ?? null,
+  };
+}
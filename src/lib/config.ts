@@ -0,0 +1,56 @@
+import type { CaseStoreKind } from "@/lib/case-history";
+import type { MaskingRules } from "@/lib/pii-masking";
+import type { RiskContext, RiskPolicy } from "@/lib/risk-policy";
+
+const DEFAULT_API_BASE_URL = "/api";
+const DEFAULT_UPSTREAM_URL = "http://localhost:5000";
+
+declare global {
+  interface Window {
+    __KYC_CONFIG__?: {
+      apiBaseUrl?: string;
+      masking?: Partial<MaskingRules>;
+      caseStore?: CaseStoreKind;
+      decisionEndpoint?: string;
+      fourEyes?: boolean;
+      riskPolicies?: RiskPolicy[];
+      riskContext?: RiskContext;
+    };
+  }
+}
+
+let runtimeApiBaseUrl: string | null = null;
+
+function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+// Lets the host page (or tests) point the client at another backend without a rebuild.
+export function setApiBaseUrl(url: string | null) {
+  runtimeApiBaseUrl = url ? trimTrailingSlash(url) : null;
+}
+
+// Base URL the browser calls. Defaults to the same-origin proxy routes under
+// `src/app/api`; resolution order is explicit runtime override,
+// `window.__KYC_CONFIG__`, `NEXT_PUBLIC_KYC_API_BASE_URL`, then `/api`.
+export function getApiBaseUrl(): string {
+  if (runtimeApiBaseUrl) {
+    return runtimeApiBaseUrl;
+  }
+
+  if (typeof window !== "undefined" && window.__KYC_CONFIG__?.apiBaseUrl) {
+    return trimTrailingSlash(window.__KYC_CONFIG__.apiBaseUrl);
+  }
+
+  return trimTrailingSlash(
+    process.env.NEXT_PUBLIC_KYC_API_BASE_URL || DEFAULT_API_BASE_URL
+  );
+}
+
+// Server-only: the KYC backend the proxy routes forward to. Read per request so
+// a deployment can change it without rebuilding the client bundle.
+export function getUpstreamUrl(): string {
+  return trimTrailingSlash(
+    process.env.KYC_UPSTREAM_URL || DEFAULT_UPSTREAM_URL
+  );
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { checkConsistency, fieldValue } from "@/lib/consistency";
+import type { Document } from "@/lib/schemas";
+
+function document(
+  id: string,
+  type: string,
+  data: Document["data"],
+  status: Document["status"] = "processed"
+): Document {
+  return { id, filename: `${id}.jpg`, status, type, data };
+}
+
+const aadhaar = document("aadhaar", "aadhaar", {
+  name: "Shri Ramesh K. Sharma",
+  dob: "15/08/1985",
+  address: "12 MG Rd, Indiranagar, Bengaluru 560038",
+});
+
+const pan = document("pan", "pan", {
+  name: "SHARMA RAMESH KUMAR",
+  date_of_birth: "1985-08-15",
+});
+
+function outcomes(documents: Document[]) {
+  return checkConsistency(documents).comparisons.map((comparison) => [
+    comparison.field,
+    comparison.outcome,
+  ]);
+}
+
+describe("checkConsistency", () => {
+  it("matches documents that agree on every shared field", () => {
+    expect(outcomes([aadhaar, pan])).toEqual([
+      ["name", "match"],
+      ["dob", "match"],
+    ]);
+  });
+
+  it("flags documents that disagree", () => {
+    const other = document("passport", "passport", {
+      surname: "Iyer",
+      given_names: "Lakshmi",
+      dob: "02/01/1990",
+    });
+    expect(outcomes([aadhaar, other])).toEqual([
+      ["name", "mismatch"],
+      ["dob", "mismatch"],
+    ]);
+  });
+
+  it("marks a swapped day and month as a partial match", () => {
+    const first = document("aadhaar", "aadhaar", { dob: "03/04/1990" });
+    const swapped = document("pan", "pan", { dob: "04/03/1990" });
+    const [dob] = checkConsistency([first, swapped]).comparisons;
+    expect(dob).toMatchObject({ field: "dob", outcome: "partial" });
+  });
+
+  it("compares addresses only when both documents carry one", () => {
+    const bill = document("bill", "utility_bill", {
+      account_holder: "Ramesh Sharma",
+      billing_address: "12 MG Road, Indiranagar, Bengaluru 560038",
+    });
+    const report = checkConsistency([aadhaar, pan, bill]);
+
+    expect(report.values.address.map((value) => value.documentId)).toEqual([
+      "aadhaar",
+      "bill",
+    ]);
+    expect(
+      report.comparisons.filter((comparison) => comparison.field === "address")
+    ).toEqual([
+      expect.objectContaining({
+        outcome: "match",
+        left: expect.objectContaining({ documentId: "aadhaar" }),
+        right: expect.objectContaining({ documentId: "bill" }),
+      }),
+    ]);
+  });
+
+  it("skips missing fields and documents that were not processed", () => {
+    const empty = document("blank", "pan", {});
+    const failed = document(
+      "failed",
+      "pan",
+      { name: "Someone Else" },
+      "failed"
+    );
+    const report = checkConsistency([aadhaar, empty, failed]);
+
+    expect(report.values.name.map((value) => value.documentId)).toEqual([
+      "aadhaar",
+    ]);
+    expect(report.comparisons).toEqual([]);
+  });
+});
+
+describe("fieldValue", () => {
+  it("joins a passport's split name", () => {
+    const passport = document("passport", "passport", {
+      surname: "Sharma",
+      given_names: "Ramesh Kumar",
+    });
+    expect(fieldValue(passport, "name")).toBe("Ramesh Kumar Sharma");
+  });
+
+  it("returns null for a field the document does not carry", () => {
+    expect(fieldValue(pan, "address")).toBeNull();
+  });
+});
@@ -0,0 +1,351 @@
+import {
+  entryText,
+  findEntry,
+  flattenDocumentData,
+  parseDate,
+} from "@/lib/document-data";
+import {
+  DOCUMENT_TYPES,
+  getDocumentType,
+  resolveFields,
+} from "@/lib/document-types";
+import type { Document, DocumentData } from "@/lib/schemas";
+
+export const CONSISTENCY_FIELDS = ["name", "dob", "address"] as const;
+
+export type ConsistencyField = (typeof CONSISTENCY_FIELDS)[number];
+export type ConsistencyOutcome = "match" | "partial" | "mismatch";
+
+export const CONSISTENCY_FIELD_LABELS: Record<ConsistencyField, string> = {
+  name: "Name",
+  dob: "Date of Birth",
+  address: "Address",
+};
+
+// Registry field ids that hold each compared value. Bank statements name the
+// customer "account_holder" rather than "name".
+const FIELD_SPEC_IDS: Record<ConsistencyField, string[]> = {
+  name: ["name", "account_holder"],
+  dob: ["dob"],
+  address: ["address"],
+};
+
+// Minimum similarity for each outcome. Addresses are written with very
+// different levels of detail, so they get more slack than names and dates.
+const THRESHOLDS: Record<ConsistencyField, { match: number; partial: number }> =
+  {
+    name: { match: 0.9, partial: 0.7 },
+    dob: { match: 1, partial: 0.5 },
+    address: { match: 0.8, partial: 0.5 },
+  };
+
+export interface ConsistencyValue {
+  documentId: string;
+  filename: string;
+  value: string;
+}
+
+export interface ConsistencyComparison {
+  field: ConsistencyField;
+  outcome: ConsistencyOutcome;
+  // 0–1, where 1 means the normalised values are identical.
+  similarity: number;
+  left: ConsistencyValue;
+  right: ConsistencyValue;
+}
+
+export interface ConsistencyReport {
+  values: Record<ConsistencyField, ConsistencyValue[]>;
+  comparisons: ConsistencyComparison[];
+}
+
+// Wire format of a comparison in the `/process_kyc` payload.
+export interface ConsistencyFinding {
+  field: ConsistencyField;
+  outcome: ConsistencyOutcome;
+  similarity: number;
+  documents: { document_id: string; value: string }[];
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function stringSimilarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - levenshtein(a, b) / length;
+}
+
+function tokenize(value: string): string[] {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+const HONORIFICS = new Set([
+  "mr",
+  "mrs",
+  "ms",
+  "miss",
+  "dr",
+  "shri",
+  "sri",
+  "smt",
+  "kumari",
+  "km",
+  "late",
+]);
+
+function nameTokensMatch(a: string, b: string): boolean {
+  // A lone initial matches any token starting with it ("R" vs "Ramesh").
+  if (a.length === 1 || b.length === 1) {
+    return a[0] === b[0];
+  }
+  return stringSimilarity(a, b) >= 0.8;
+}
+
+// Order-insensitive, tolerant of honorifics, initials and small spelling
+// differences ("Shri Ramesh K. Sharma" vs "SHARMA RAMESH KUMAR").
+function compareNames(a: string, b: string): number {
+  const left = tokenize(a).filter((token) => !HONORIFICS.has(token));
+  const right = tokenize(b).filter((token) => !HONORIFICS.has(token));
+  if (left.length === 0 || right.length === 0) {
+    return 0;
+  }
+
+  const unmatched = [...right];
+  let matched = 0;
+  for (const token of left) {
+    const index = unmatched.findIndex((other) => nameTokensMatch(token, other));
+    if (index !== -1) {
+      unmatched.splice(index, 1);
+      matched++;
+    }
+  }
+
+  const tokenScore = matched / Math.max(left.length, right.length);
+  const sortedScore = stringSimilarity(
+    [...left].sort().join(" "),
+    [...right].sort().join(" ")
+  );
+  return Math.max(tokenScore, sortedScore);
+}
+
+// A year of birth alone (common on Aadhaar) agreeing with a full date is only
+// a partial match; a day and month swapped is flagged the same way.
+function compareDates(a: string, b: string): number {
+  const left = parseDate(a);
+  const right = parseDate(b);
+  if (!left || !right) {
+    return tokenize(a).join("") === tokenize(b).join("") ? 1 : 0;
+  }
+  if (left.year !== right.year) {
+    return 0;
+  }
+  if (left.month === undefined || right.month === undefined) {
+    return 0.75;
+  }
+  if (left.month === right.month && left.day === right.day) {
+    return 1;
+  }
+  if (left.month === right.day && left.day === right.month) {
+    return 0.5;
+  }
+  return 0;
+}
+
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  rd: "road",
+  st: "street",
+  ln: "lane",
+  nr: "near",
+  opp: "opposite",
+  apt: "apartment",
+  apts: "apartments",
+  bldg: "building",
+  flr: "floor",
+  dist: "district",
+  sec: "sector",
+  ngr: "nagar",
+};
+
+const ADDRESS_NOISE = new Set(["no", "and", "the", "of", "at", "po", "india"]);
+
+function addressTokens(value: string): Set<string> {
+  return new Set(
+    tokenize(value)
+      .map((token) => ADDRESS_ABBREVIATIONS[token] ?? token)
+      .filter((token) => !ADDRESS_NOISE.has(token))
+  );
+}
+
+function pincode(value: string): string | null {
+  return (
+    value
+      .match(/\b(\d{3})\s?(\d{3})\b/)
+      ?.slice(1)
+      .join("") ?? null
+  );
+}
+
+// Overlap against the shorter address, so a bill's brief address can match
+// the longer one on an Aadhaar. Differing PIN codes cap the score.
+function compareAddresses(a: string, b: string): number {
+  const left = addressTokens(a);
+  const right = addressTokens(b);
+  if (left.size === 0 || right.size === 0) {
+    return 0;
+  }
+
+  const shared = [...left].filter((token) => right.has(token)).length;
+  const overlap = shared / Math.min(left.size, right.size);
+
+  const leftPin = pincode(a);
+  const rightPin = pincode(b);
+  if (leftPin && rightPin && leftPin !== rightPin) {
+    return Math.min(overlap, 0.4);
+  }
+  return overlap;
+}
+
+const COMPARATORS: Record<ConsistencyField, (a: string, b: string) => number> =
+  {
+    name: compareNames,
+    dob: compareDates,
+    address: compareAddresses,
+  };
+
+const FALLBACK_ALIASES: Record<ConsistencyField, string[]> = Object.fromEntries(
+  CONSISTENCY_FIELDS.map((field) => [
+    field,
+    [
+      ...new Set(
+        Object.values(DOCUMENT_TYPES)
+          .flatMap((definition) => definition.fields)
+          .filter((spec) => FIELD_SPEC_IDS[field].includes(spec.id))
+          .flatMap((spec) => spec.aliases)
+      ),
+    ],
+  ])
+) as Record<ConsistencyField, string[]>;
+
+// Uses the document type's own field layout where it has one, then the
+// aliases of every registered type, then a few structural fallbacks: a
+// passport's split surname/given names and an address held as an object.
+export function fieldValue(
+  document: Document,
+  field: ConsistencyField
+): string | null {
+  const resolved = resolveFields(
+    getDocumentType(document.type),
+    document.data
+  ).find((candidate) => FIELD_SPEC_IDS[field].includes(candidate.spec.id));
+  if (resolved) {
+    return resolved.value;
+  }
+
+  const entries = flattenDocumentData(document.data);
+  const value = entryText(findEntry(entries, FALLBACK_ALIASES[field]));
+  if (value) {
+    return value;
+  }
+
+  if (field === "name") {
+    const parts = [
+      entryText(
+        findEntry(entries, ["given_names", "given_name", "first_name"])
+      ),
+      entryText(findEntry(entries, ["surname", "last_name"])),
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(" ") : null;
+  }
+
+  if (field === "address") {
+    const nested = Object.entries(document.data).find(
+      ([key, child]) =>
+        /address/i.test(key) &&
+        typeof child === "object" &&
+        child !== null &&
+        !Array.isArray(child)
+    );
+    if (nested) {
+      const parts = flattenDocumentData(nested[1] as DocumentData)
+        .map((entry) => entryText(entry))
+        .filter(Boolean);
+      return parts.length > 0 ? parts.join(", ") : null;
+    }
+  }
+
+  return null;
+}
+
+function outcomeFor(
+  field: ConsistencyField,
+  similarity: number
+): ConsistencyOutcome {
+  const thresholds = THRESHOLDS[field];
+  if (similarity >= thresholds.match) return "match";
+  if (similarity >= thresholds.partial) return "partial";
+  return "mismatch";
+}
+
+// Compares every pair of processed documents on each field both of them carry.
+export function checkConsistency(documents: Document[]): ConsistencyReport {
+  const processed = documents.filter((doc) => doc.status === "processed");
+  const values = {} as Record<ConsistencyField, ConsistencyValue[]>;
+  const comparisons: ConsistencyComparison[] = [];
+
+  for (const field of CONSISTENCY_FIELDS) {
+    values[field] = processed.flatMap((doc) => {
+      const value = fieldValue(doc, field);
+      return value
+        ? [{ documentId: doc.id, filename: doc.filename, value }]
+        : [];
+    });
+
+    values[field].forEach((left, i) => {
+      values[field].slice(i + 1).forEach((right) => {
+        const similarity = COMPARATORS[field](left.value, right.value);
+        comparisons.push({
+          field,
+          outcome: outcomeFor(field, similarity),
+          similarity: Math.round(similarity * 100) / 100,
+          left,
+          right,
+        });
+      });
+    });
+  }
+
+  return { values, comparisons };
+}
+
+export function consistencyFindings(
+  report: ConsistencyReport
+): ConsistencyFinding[] {
+  return report.comparisons.map((comparison) => ({
+    field: comparison.field,
+    outcome: comparison.outcome,
+    similarity: comparison.similarity,
+    documents: [comparison.left, comparison.right].map((side) => ({
+      document_id: side.documentId,
+      value: side.value,
+    })),
+  }));
+}
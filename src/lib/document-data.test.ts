@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { parseDate } from "@/lib/document-data";
+
+describe("parseDate", () => {
+  it("reads day-first, ISO, month-name and year-only dates", () => {
+    expect(parseDate("03/04/1990")).toEqual({ year: 1990, month: 4, day: 3 });
+    expect(parseDate("1990-04-03")).toEqual({ year: 1990, month: 4, day: 3 });
+    expect(parseDate("3 Apr 1990")).toEqual({ year: 1990, month: 4, day: 3 });
+    expect(parseDate("April 3, 1990")).toEqual({
+      year: 1990,
+      month: 4,
+      day: 3,
+    });
+    expect(parseDate("1990")).toEqual({ year: 1990 });
+  });
+
+  it("rejects months outside 1–12", () => {
+    expect(parseDate("31/13/2025")).toBeNull();
+    expect(parseDate("2025-00-10")).toBeNull();
+  });
+
+  it("rejects days past the end of the month", () => {
+    expect(parseDate("31/04/2025")).toBeNull();
+    expect(parseDate("00/04/2025")).toBeNull();
+    expect(parseDate("32 Jan 2025")).toBeNull();
+  });
+
+  it("accepts 29 February only in leap years", () => {
+    expect(parseDate("29/02/2024")).toEqual({ year: 2024, month: 2, day: 29 });
+    expect(parseDate("29/02/2025")).toBeNull();
+  });
+
+  it("returns null for text that is not a date", () => {
+    expect(parseDate("not known")).toBeNull();
+  });
+});
@@ -0,0 +1,154 @@
+import type { DocumentData, DocumentValue } from "@/lib/schemas";
+
+export interface DocumentEntry {
+  // Dotted path from the document root, e.g. "address.pincode" (see
+  // `joinPath`).
+  path: string;
+  // Last path segment, normalised for alias matching ("Date of Birth" -> "dateofbirth").
+  key: string;
+  value: Exclude<DocumentValue, DocumentData>;
+}
+
+export function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// Joins keys into a dotted path. Extracted keys often contain dots themselves
+// ("D.O.B", "S.No."), so a "." or "\" inside a key is escaped with a
+// backslash: ["D.O.B"] is "D\.O\.B", not a path three keys deep.
+export function joinPath(keys: string[]): string {
+  return keys.map((key) => key.replace(/[\\.]/g, "\\$&")).join(".");
+}
+
+export function splitPath(path: string): string[] {
+  const keys: string[] = [];
+  let key = "";
+  for (let i = 0; i < path.length; i++) {
+    if (path[i] === "\\" && i + 1 < path.length) {
+      key += path[++i];
+    } else if (path[i] === ".") {
+      keys.push(key);
+      key = "";
+    } else {
+      key += path[i];
+    }
+  }
+  return [...keys, key];
+}
+
+// How a path is shown to a reviewer: unescaped, with underscores as spaces.
+export function pathLabel(path: string): string {
+  return splitPath(path).join(".").replace(/_/g, " ");
+}
+
+// Walks nested objects the same way `renderNestedData` does: objects are
+// descended into, arrays and scalars are leaves.
+export function flattenDocumentData(
+  data: DocumentData,
+  prefix: string[] = []
+): DocumentEntry[] {
+  return Object.entries(data).flatMap(([key, value]) => {
+    const keys = [...prefix, key];
+    const path = joinPath(keys);
+    if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+      return flattenDocumentData(value, keys);
+    }
+    return [{ path, key: normalizeKey(key), value }];
+  });
+}
+
+export function findEntry(
+  entries: DocumentEntry[],
+  aliases: string[]
+): DocumentEntry | undefined {
+  for (const alias of aliases) {
+    const normalized = normalizeKey(alias);
+    const entry = entries.find(
+      (candidate) => candidate.key === normalized && candidate.value !== null
+    );
+    if (entry) {
+      return entry;
+    }
+  }
+  return undefined;
+}
+
+export function entryText(entry: DocumentEntry | undefined): string | null {
+  if (!entry || entry.value === null) {
+    return null;
+  }
+  return Array.isArray(entry.value)
+    ? entry.value.map((item) => String(item)).join(", ")
+    : String(entry.value);
+}
+
+export interface ParsedDate {
+  year: number;
+  month?: number;
+  day?: number;
+}
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+function monthFromName(name: string): number | undefined {
+  const index = MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+  return index === -1 ? undefined : index + 1;
+}
+
+function readDate(value: string): ParsedDate | null {
+  const text = value.trim();
+  let match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (match) {
+    return { year: +match[1], month: +match[2], day: +match[3] };
+  }
+  match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+  if (match) {
+    return { year: +match[3], month: +match[2], day: +match[1] };
+  }
+  match = text.match(/^(\d{1,2})[\s-]+([a-z]+)[\s-,]+(\d{4})$/i);
+  if (match && monthFromName(match[2])) {
+    return { year: +match[3], month: monthFromName(match[2]), day: +match[1] };
+  }
+  match = text.match(/^([a-z]+)\s+(\d{1,2}),?\s+(\d{4})$/i);
+  if (match && monthFromName(match[1])) {
+    return { year: +match[3], month: monthFromName(match[1]), day: +match[2] };
+  }
+  match = text.match(/^(\d{4})$/);
+  if (match) {
+    return { year: +match[1] };
+  }
+  return null;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// Indian documents write dates day-first, so "03/04/1990" is 3 April. Dates
+// that do not exist, such as "31/13/2025" or "30/02/2024", are not understood.
+export function parseDate(value: string): ParsedDate | null {
+  const date = readDate(value);
+  if (!date || date.month === undefined || date.day === undefined) {
+    return date;
+  }
+  const { year, month, day } = date;
+  return month >= 1 &&
+    month <= 12 &&
+    day >= 1 &&
+    day <= daysInMonth(year, month)
+    ? date
+    : null;
+}
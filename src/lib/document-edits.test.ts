@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  flattenDocumentData,
+  joinPath,
+  pathLabel,
+  splitPath,
+} from "@/lib/document-data";
+import {
+  diffDocumentData,
+  removeValueAtPath,
+  setValueAtPath,
+} from "@/lib/document-edits";
+
+describe("paths", () => {
+  it("escapes dots and backslashes inside keys", () => {
+    expect(joinPath(["address", "pincode"])).toBe("address.pincode");
+    expect(joinPath(["D.O.B"])).toBe("D\\.O\\.B");
+    expect(joinPath(["a\\b", "S.No."])).toBe("a\\\\b.S\\.No\\.");
+  });
+
+  it("splits what it joins", () => {
+    for (const keys of [["address", "pincode"], ["D.O.B"], ["a\\b", "S.No."]]) {
+      expect(splitPath(joinPath(keys))).toEqual(keys);
+    }
+  });
+
+  it("labels paths unescaped", () => {
+    expect(pathLabel("D\\.O\\.B")).toBe("D.O.B");
+    expect(pathLabel("date_of_birth")).toBe("date of birth");
+  });
+
+  it("flattens keys with dots into single segments", () => {
+    expect(
+      flattenDocumentData({ "D.O.B": "01/01/1990", address: { "S.No.": 4 } })
+    ).toEqual([
+      { path: "D\\.O\\.B", key: "dob", value: "01/01/1990" },
+      { path: "address.S\\.No\\.", key: "sno", value: 4 },
+    ]);
+  });
+});
+
+describe("setValueAtPath", () => {
+  it("sets a nested value, creating objects as needed", () => {
+    expect(
+      setValueAtPath({ name: "Asha" }, "address.pincode", "560001")
+    ).toEqual({ name: "Asha", address: { pincode: "560001" } });
+  });
+
+  it("edits a key containing dots in place", () => {
+    expect(
+      setValueAtPath({ "D.O.B": "01/01/1990" }, "D\\.O\\.B", "02/01/1990")
+    ).toEqual({ "D.O.B": "02/01/1990" });
+  });
+});
+
+describe("removeValueAtPath", () => {
+  it("removes a nested value and drops emptied objects", () => {
+    expect(
+      removeValueAtPath(
+        { name: "Asha", address: { pincode: "1" } },
+        "address.pincode"
+      )
+    ).toEqual({ name: "Asha" });
+  });
+
+  it("removes a key containing dots", () => {
+    expect(
+      removeValueAtPath({ "D.O.B": "01/01/1990", name: "Asha" }, "D\\.O\\.B")
+    ).toEqual({ name: "Asha" });
+  });
+});
+
+describe("diffDocumentData", () => {
+  it("reports edits to keys containing dots as changes", () => {
+    const original = { "D.O.B": "01/01/1990", "S.No.": 4 };
+    const edited = removeValueAtPath(
+      setValueAtPath(original, "D\\.O\\.B", "02/01/1990"),
+      "S\\.No\\."
+    );
+    expect(diffDocumentData(original, edited)).toEqual([
+      {
+        path: "D\\.O\\.B",
+        kind: "changed",
+        before: "01/01/1990",
+        after: "02/01/1990",
+      },
+      { path: "S\\.No\\.", kind: "removed", before: 4 },
+    ]);
+  });
+});
@@ -0,0 +1,135 @@
+import { flattenDocumentData, splitPath } from "@/lib/document-data";
+import type { DocumentData, DocumentValue } from "@/lib/schemas";
+
+type LeafValue = Exclude<DocumentValue, DocumentData>;
+
+export interface FieldChange {
+  path: string;
+  kind: "added" | "removed" | "changed";
+  before?: LeafValue;
+  after?: LeafValue;
+}
+
+function isObject(value: DocumentValue | undefined): value is DocumentData {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function setValueAtKeys(
+  data: DocumentData,
+  [head, ...rest]: string[],
+  value: DocumentValue
+): DocumentData {
+  if (rest.length === 0) {
+    return { ...data, [head]: value };
+  }
+
+  const child = data[head];
+  return {
+    ...data,
+    [head]: setValueAtKeys(isObject(child) ? child : {}, rest, value),
+  };
+}
+
+function removeValueAtKeys(
+  data: DocumentData,
+  [head, ...rest]: string[]
+): DocumentData {
+  const { [head]: child, ...others } = data;
+
+  if (rest.length === 0 || !isObject(child)) {
+    return others;
+  }
+
+  const updated = removeValueAtKeys(child, rest);
+  return Object.keys(updated).length > 0
+    ? { ...others, [head]: updated }
+    : others;
+}
+
+// Returns a copy of `data` with the dotted `path` set, creating intermediate
+// objects as needed.
+export function setValueAtPath(
+  data: DocumentData,
+  path: string,
+  value: DocumentValue
+): DocumentData {
+  return setValueAtKeys(data, splitPath(path), value);
+}
+
+// Returns a copy of `data` without `path`, dropping objects left empty.
+export function removeValueAtPath(
+  data: DocumentData,
+  path: string
+): DocumentData {
+  return removeValueAtKeys(data, splitPath(path));
+}
+
+// Keeps the type of the value being replaced where the input allows it, so a
+// corrected number or flag is not silently turned into a string.
+export function coerceInput(
+  raw: string,
+  previous: DocumentValue | undefined
+): DocumentValue {
+  const trimmed = raw.trim();
+
+  if (typeof previous === "number" && trimmed !== "") {
+    const number = Number(trimmed);
+    if (!Number.isNaN(number)) return number;
+  }
+  if (typeof previous === "boolean") {
+    if (/^(true|yes)$/i.test(trimmed)) return true;
+    if (/^(false|no)$/i.test(trimmed)) return false;
+  }
+  if (Array.isArray(previous)) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) return parsed;
+    } catch {
+      // Fall through to a plain string.
+    }
+  }
+  if (previous === null && trimmed === "") {
+    return null;
+  }
+
+  return raw;
+}
+
+export function formatInputValue(value: DocumentValue | undefined): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export function diffDocumentData(
+  original: DocumentData,
+  edited: DocumentData
+): FieldChange[] {
+  const before = new Map(
+    flattenDocumentData(original).map((entry) => [entry.path, entry.value])
+  );
+  const after = new Map(
+    flattenDocumentData(edited).map((entry) => [entry.path, entry.value])
+  );
+  const changes: FieldChange[] = [];
+
+  after.forEach((value, path) => {
+    if (!before.has(path)) {
+      changes.push({ path, kind: "added", after: value });
+    } else if (JSON.stringify(before.get(path)) !== JSON.stringify(value)) {
+      changes.push({
+        path,
+        kind: "changed",
+        before: before.get(path),
+        after: value,
+      });
+    }
+  });
+  before.forEach((value, path) => {
+    if (!after.has(path)) {
+      changes.push({ path, kind: "removed", before: value });
+    }
+  });
+
+  return changes;
+}
@@ -0,0 +1,415 @@
+import {
+  entryText,
+  findEntry,
+  flattenDocumentData,
+  normalizeKey,
+  type DocumentEntry,
+} from "@/lib/document-data";
+import { ID_VALIDATORS } from "@/lib/id-validators";
+import type { DocumentData } from "@/lib/schemas";
+
+export const DOCUMENT_TYPE_IDS = [
+  "aadhaar",
+  "pan",
+  "passport",
+  "voter_id",
+  "driving_licence",
+  "utility_bill",
+  "bank_statement",
+  "unknown",
+] as const;
+
+export type DocumentTypeId = (typeof DOCUMENT_TYPE_IDS)[number];
+
+export type FieldFormat = "text" | "date" | "currency";
+
+export interface FieldSpec {
+  id: string;
+  label: string;
+  aliases: string[];
+  format?: FieldFormat;
+}
+
+export interface DocumentTypeDefinition {
+  id: DocumentTypeId;
+  label: string;
+  // Values of a backend-supplied `document_type` field that map to this type.
+  names: string[];
+  // Keys whose presence suggests this type.
+  keyHints: RegExp[];
+  // Values whose shape suggests this type (e.g. the PAN format).
+  valueHints: RegExp[];
+  fields: FieldSpec[];
+}
+
+const NAME: FieldSpec = {
+  id: "name",
+  label: "Name",
+  aliases: ["name", "full_name", "holder_name", "card_holder_name"],
+};
+const DOB: FieldSpec = {
+  id: "dob",
+  label: "Date of Birth",
+  aliases: ["dob", "date_of_birth", "birth_date", "year_of_birth", "yob"],
+  format: "date",
+};
+const GENDER: FieldSpec = {
+  id: "gender",
+  label: "Gender",
+  aliases: ["gender", "sex"],
+};
+const ADDRESS: FieldSpec = {
+  id: "address",
+  label: "Address",
+  aliases: ["address", "full_address", "permanent_address", "billing_address"],
+};
+const FATHER_NAME: FieldSpec = {
+  id: "father_name",
+  label: "Father's Name",
+  aliases: ["father_name", "fathers_name", "father", "relation_name"],
+};
+const ISSUE_DATE: FieldSpec = {
+  id: "issue_date",
+  label: "Date of Issue",
+  aliases: ["date_of_issue", "issue_date", "issued_on"],
+  format: "date",
+};
+const EXPIRY_DATE: FieldSpec = {
+  id: "expiry_date",
+  label: "Date of Expiry",
+  aliases: [
+    "date_of_expiry",
+    "expiry_date",
+    "valid_till",
+    "valid_upto",
+    "validity",
+  ],
+  format: "date",
+};
+
+export const DOCUMENT_TYPES: Record<DocumentTypeId, DocumentTypeDefinition> = {
+  aadhaar: {
+    id: "aadhaar",
+    label: "Aadhaar Card",
+    names: ["aadhaar", "aadhar", "aadhaar card", "uidai"],
+    keyHints: [/aadha?ar/, /^uid/, /^vid$/],
+    valueHints: [/^\d{4}\s?\d{4}\s?\d{4}$/],
+    fields: [
+      NAME,
+      DOB,
+      GENDER,
+      {
+        id: "aadhaar_number",
+        label: "Aadhaar Number",
+        aliases: ID_VALIDATORS.aadhaar.aliases,
+      },
+      ADDRESS,
+    ],
+  },
+  pan: {
+    id: "pan",
+    label: "PAN Card",
+    names: ["pan", "pan card", "permanent account number"],
+    keyHints: [/^pan/, /permanentaccountnumber/],
+    valueHints: [/^[A-Z]{5}\d{4}[A-Z]$/],
+    fields: [
+      NAME,
+      FATHER_NAME,
+      DOB,
+      {
+        id: "pan_number",
+        label: "PAN",
+        aliases: ID_VALIDATORS.pan.aliases,
+      },
+    ],
+  },
+  passport: {
+    id: "passport",
+    label: "Passport",
+    names: ["passport"],
+    keyHints: [/passport/, /placeofbirth/, /nationality/, /filenumber/],
+    valueHints: [/^[A-Z]\d{7}$/],
+    fields: [
+      {
+        id: "passport_number",
+        label: "Passport Number",
+        aliases: ID_VALIDATORS.passport.aliases,
+      },
+      { id: "surname", label: "Surname", aliases: ["surname", "last_name"] },
+      {
+        id: "given_names",
+        label: "Given Names",
+        aliases: ["given_names", "given_name", "first_name"],
+      },
+      NAME,
+      { id: "nationality", label: "Nationality", aliases: ["nationality"] },
+      GENDER,
+      DOB,
+      {
+        id: "place_of_birth",
+        label: "Place of Birth",
+        aliases: ["place_of_birth"],
+      },
+      ISSUE_DATE,
+      EXPIRY_DATE,
+      {
+        id: "place_of_issue",
+        label: "Place of Issue",
+        aliases: ["place_of_issue"],
+      },
+    ],
+  },
+  voter_id: {
+    id: "voter_id",
+    label: "Voter ID",
+    names: ["voter id", "voter_id", "epic", "voter card", "election card"],
+    keyHints: [/epic/, /voter/, /electoral/],
+    valueHints: [/^[A-Z]{3}\d{7}$/],
+    fields: [
+      {
+        id: "epic_number",
+        label: "EPIC Number",
+        aliases: ID_VALIDATORS.epic.aliases,
+      },
+      NAME,
+      FATHER_NAME,
+      GENDER,
+      DOB,
+      ADDRESS,
+    ],
+  },
+  driving_licence: {
+    id: "driving_licence",
+    label: "Driving Licence",
+    names: ["driving licence", "driving license", "dl", "driving_licence"],
+    keyHints: [/licen[cs]e/, /^dl/, /vehicleclass/, /^cov$/],
+    valueHints: [/^[A-Z]{2}[-\s]?\d{2}[-\s]?\d{4}[-\s]?\d{7}$/],
+    fields: [
+      {
+        id: "licence_number",
+        label: "Licence Number",
+        aliases: ID_VALIDATORS.driving_licence.aliases,
+      },
+      NAME,
+      DOB,
+      ADDRESS,
+      ISSUE_DATE,
+      EXPIRY_DATE,
+      {
+        id: "vehicle_classes",
+        label: "Vehicle Classes",
+        aliases: [
+          "vehicle_classes",
+          "vehicle_class",
+          "cov",
+          "class_of_vehicle",
+        ],
+      },
+    ],
+  },
+  utility_bill: {
+    id: "utility_bill",
+    label: "Utility Bill",
+    names: [
+      "utility bill",
+      "electricity bill",
+      "water bill",
+      "gas bill",
+      "bill",
+    ],
+    keyHints: [/consumer/, /billdate/, /duedate/, /units/, /biller/, /meter/],
+    valueHints: [],
+    fields: [
+      {
+        id: "provider",
+        label: "Provider",
+        aliases: ["provider", "biller", "biller_name", "company", "board"],
+      },
+      {
+        id: "consumer_number",
+        label: "Consumer Number",
+        aliases: [
+          "consumer_number",
+          "consumer_no",
+          "ca_number",
+          "service_number",
+        ],
+      },
+      NAME,
+      ADDRESS,
+      {
+        id: "bill_date",
+        label: "Bill Date",
+        aliases: ["bill_date", "billing_date", "invoice_date"],
+        format: "date",
+      },
+      {
+        id: "due_date",
+        label: "Due Date",
+        aliases: ["due_date"],
+        format: "date",
+      },
+      {
+        id: "amount_due",
+        label: "Amount Due",
+        aliases: ["amount_due", "bill_amount", "total_amount", "amount"],
+        format: "currency",
+      },
+    ],
+  },
+  bank_statement: {
+    id: "bank_statement",
+    label: "Bank Statement",
+    names: ["bank statement", "bank_statement", "statement of account"],
+    keyHints: [
+      /ifsc/,
+      /accountnumber/,
+      /openingbalance/,
+      /closingbalance/,
+      /transactions/,
+    ],
+    valueHints: [/^[A-Z]{4}0[A-Z0-9]{6}$/],
+    fields: [
+      { id: "bank_name", label: "Bank", aliases: ["bank_name", "bank"] },
+      {
+        id: "account_holder",
+        label: "Account Holder",
+        aliases: [
+          "account_holder",
+          "account_holder_name",
+          "customer_name",
+          "name",
+        ],
+      },
+      {
+        id: "account_number",
+        label: "Account Number",
+        aliases: ["account_number", "account_no", "acc_no"],
+      },
+      { id: "ifsc", label: "IFSC", aliases: ID_VALIDATORS.ifsc.aliases },
+      {
+        id: "statement_period",
+        label: "Statement Period",
+        aliases: ["statement_period", "period"],
+      },
+      {
+        id: "opening_balance",
+        label: "Opening Balance",
+        aliases: ["opening_balance"],
+        format: "currency",
+      },
+      {
+        id: "closing_balance",
+        label: "Closing Balance",
+        aliases: ["closing_balance"],
+        format: "currency",
+      },
+      ADDRESS,
+    ],
+  },
+  unknown: {
+    id: "unknown",
+    label: "Unknown Document",
+    names: [],
+    keyHints: [],
+    valueHints: [],
+    fields: [],
+  },
+};
+
+const DECLARED_TYPE_KEYS = [
+  "document_type",
+  "doc_type",
+  "documenttype",
+  "type",
+];
+
+export function getDocumentType(id: string): DocumentTypeDefinition {
+  return DOCUMENT_TYPES[id as DocumentTypeId] ?? DOCUMENT_TYPES.unknown;
+}
+
+function typeFromName(name: string): DocumentTypeId | null {
+  const normalized = normalizeKey(name);
+  const match = Object.values(DOCUMENT_TYPES).find((definition) =>
+    definition.names.some((candidate) => normalizeKey(candidate) === normalized)
+  );
+  return match ? match.id : null;
+}
+
+function scoreType(
+  definition: DocumentTypeDefinition,
+  entries: DocumentEntry[]
+): number {
+  return entries.reduce((score, entry) => {
+    const keyScore = definition.keyHints.some((hint) => hint.test(entry.key))
+      ? 2
+      : 0;
+    const text = typeof entry.value === "string" ? entry.value.trim() : "";
+    const valueScore = definition.valueHints.some((hint) =>
+      hint.test(text.toUpperCase())
+    )
+      ? 3
+      : 0;
+    return score + keyScore + valueScore;
+  }, 0);
+}
+
+// Prefers a type the backend declared in the data, then falls back to scoring
+// key names and value shapes against every registered type.
+export function detectDocumentType(data: DocumentData): DocumentTypeId {
+  const entries = flattenDocumentData(data);
+
+  const declared = entryText(findEntry(entries, DECLARED_TYPE_KEYS));
+  const declaredType = declared ? typeFromName(declared) : null;
+  if (declaredType) {
+    return declaredType;
+  }
+
+  let best: DocumentTypeId = "unknown";
+  let bestScore = 0;
+  for (const definition of Object.values(DOCUMENT_TYPES)) {
+    const score = scoreType(definition, entries);
+    if (score > bestScore) {
+      best = definition.id;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+export interface ResolvedField {
+  spec: FieldSpec;
+  path: string;
+  value: string;
+}
+
+export function resolveFields(
+  definition: DocumentTypeDefinition,
+  data: DocumentData
+): ResolvedField[] {
+  const entries = flattenDocumentData(data);
+  const used = new Set<string>();
+
+  return definition.fields.flatMap((spec) => {
+    const entry = findEntry(
+      entries.filter((candidate) => !used.has(candidate.path)),
+      spec.aliases
+    );
+    const value = entryText(entry);
+    if (!entry || value === null) {
+      return [];
+    }
+    used.add(entry.path);
+    return [{ spec, path: entry.path, value }];
+  });
+}
+
+export function formatFieldValue(field: ResolvedField): string {
+  if (field.spec.format === "currency") {
+    const amount = Number(field.value.replace(/[₹,\s]/g, ""));
+    if (!Number.isNaN(amount)) {
+      return `₹${amount.toLocaleString("en-IN")}`;
+    }
+  }
+  return field.value;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { storedFileName, validateFiles } from "@/lib/file-validation";
+
+function textFile(name: string): File {
+  return new File(["Name: A Sample"], name, { type: "text/plain" });
+}
+
+describe("validateFiles", () => {
+  it("accepts files whose stored names differ", async () => {
+    const { accepted, rejected } = await validateFiles(
+      [textFile("a.txt"), textFile("b.txt")],
+      []
+    );
+    expect(accepted.map((file) => file.name)).toEqual(["a.txt", "b.txt"]);
+    expect(rejected).toEqual([]);
+  });
+
+  it("rejects a file stored under the same name as a selected one", async () => {
+    const { accepted, rejected } = await validateFiles(
+      [textFile("a b.txt")],
+      [textFile("ab.txt")]
+    );
+    expect(accepted).toEqual([]);
+    expect(rejected.map((rejection) => rejection.file.name)).toEqual([
+      "a b.txt",
+    ]);
+  });
+
+  it("rejects the later of two new files stored under the same name", async () => {
+    const { accepted, rejected } = await validateFiles(
+      [textFile("ab.txt"), textFile("a  b.txt")],
+      []
+    );
+    expect(accepted.map((file) => file.name)).toEqual(["ab.txt"]);
+    expect(rejected.map((rejection) => rejection.file.name)).toEqual([
+      "a  b.txt",
+    ]);
+  });
+});
+
+describe("storedFileName", () => {
+  it("drops whitespace the way the backend stores names", () => {
+    expect(storedFileName("pan card\t2024.pdf")).toBe("pancard2024.pdf");
+  });
+});
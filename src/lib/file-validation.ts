@@ -0,0 +1,163 @@
+// Single source of truth for what the drop zone accepts. Both the file input's
+// `accept` attribute and `validateFiles` are derived from these rules.
+
+interface FileTypeRule {
+  label: string;
+  extensions: string[];
+  mimeTypes: string[];
+  // Leading bytes the file must start with; `null` means "must look like text".
+  signatures: number[][] | null;
+}
+
+export const UPLOAD_RULES = {
+  maxFileSize: 10 * 1024 * 1024,
+  maxBatchSize: 40 * 1024 * 1024,
+  types: [
+    {
+      label: "PDF",
+      extensions: [".pdf"],
+      mimeTypes: ["application/pdf"],
+      signatures: [[0x25, 0x50, 0x44, 0x46, 0x2d]],
+    },
+    {
+      label: "JPEG",
+      extensions: [".jpg", ".jpeg"],
+      mimeTypes: ["image/jpeg"],
+      signatures: [[0xff, 0xd8, 0xff]],
+    },
+    {
+      label: "PNG",
+      extensions: [".png"],
+      mimeTypes: ["image/png"],
+      signatures: [[0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]],
+    },
+    {
+      label: "TXT",
+      extensions: [".txt"],
+      mimeTypes: ["text/plain"],
+      signatures: null,
+    },
+  ] satisfies FileTypeRule[],
+};
+
+const SNIFF_LENGTH = 512;
+
+export interface FileRejection {
+  file: File;
+  reason: string;
+}
+
+export const ACCEPT_ATTRIBUTE = UPLOAD_RULES.types
+  .flatMap((type) => [...type.extensions, ...type.mimeTypes])
+  .join(",");
+
+export const SUPPORTED_TYPES_LABEL = UPLOAD_RULES.types
+  .map((type) => type.label)
+  .join(", ");
+
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(
+      bytes % (1024 * 1024) ? 1 : 0
+    )}MB`;
+  }
+  return `${(bytes / 1024).toFixed(0)}KB`;
+}
+
+function findTypeRule(file: File): FileTypeRule | undefined {
+  const lowerName = file.name.toLowerCase();
+  return UPLOAD_RULES.types.find((type) =>
+    type.extensions.some((ext) => lowerName.endsWith(ext))
+  );
+}
+
+async function readHeader(file: File): Promise<Uint8Array> {
+  return new Uint8Array(await file.slice(0, SNIFF_LENGTH).arrayBuffer());
+}
+
+function matchesSignature(header: Uint8Array, rule: FileTypeRule): boolean {
+  if (rule.signatures === null) {
+    // Binary formats almost always contain NUL bytes early on; text never does.
+    return !header.includes(0);
+  }
+  return rule.signatures.some((signature) =>
+    signature.every((byte, index) => header[index] === byte)
+  );
+}
+
+async function checkFile(file: File): Promise<string | null> {
+  const rule = findTypeRule(file);
+  if (!rule) {
+    return `Unsupported file type. Allowed: ${SUPPORTED_TYPES_LABEL}`;
+  }
+
+  if (file.type && !rule.mimeTypes.includes(file.type)) {
+    return `File type ${file.type} does not match its ${rule.label} extension`;
+  }
+
+  if (file.size === 0) {
+    return "File is empty";
+  }
+
+  if (file.size > UPLOAD_RULES.maxFileSize) {
+    return `File is ${formatBytes(file.size)}; the limit is ${formatBytes(
+      UPLOAD_RULES.maxFileSize
+    )}`;
+  }
+
+  if (!matchesSignature(await readHeader(file), rule)) {
+    return `File content is not a valid ${rule.label}`;
+  }
+
+  return null;
+}
+
+// The name a file is stored under on the backend, which drops whitespace.
+// Two files that differ only in spacing would overwrite each other there.
+export function storedFileName(name: string): string {
+  return name.replace(/\s+/g, "");
+}
+
+// Validates newly added files against the shared rules and the files already
+// selected, giving every rejected file its own reason.
+export async function validateFiles(
+  newFiles: File[],
+  selectedFiles: File[]
+): Promise<{ accepted: File[]; rejected: FileRejection[] }> {
+  const accepted: File[] = [];
+  const rejected: FileRejection[] = [];
+  const names = new Set(selectedFiles.map((file) => storedFileName(file.name)));
+  let batchSize = selectedFiles.reduce((sum, file) => sum + file.size, 0);
+
+  for (const file of newFiles) {
+    if (names.has(storedFileName(file.name))) {
+      rejected.push({
+        file,
+        reason: "A file with this name, ignoring spaces, is already selected",
+      });
+      continue;
+    }
+
+    const reason = await checkFile(file);
+    if (reason) {
+      rejected.push({ file, reason });
+      continue;
+    }
+
+    if (batchSize + file.size > UPLOAD_RULES.maxBatchSize) {
+      rejected.push({
+        file,
+        reason: `Adding this file would exceed the ${formatBytes(
+          UPLOAD_RULES.maxBatchSize
+        )} total upload limit`,
+      });
+      continue;
+    }
+
+    names.add(storedFileName(file.name));
+    batchSize += file.size;
+    accepted.push(file);
+  }
+
+  return { accepted, rejected };
+}
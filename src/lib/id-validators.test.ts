@@ -0,0 +1,266 @@
+import { describe, expect, it } from "vitest";
+import {
+  compactId,
+  gstinCheckCharacter,
+  validateDocumentIds,
+  validateId,
+  verhoeffValid,
+} from "@/lib/id-validators";
+
+describe("verhoeffValid", () => {
+  it("accepts a number with the right check digit", () => {
+    expect(verhoeffValid("234123412346")).toBe(true);
+  });
+
+  it("rejects a number with a wrong check digit", () => {
+    expect(verhoeffValid("234123412345")).toBe(false);
+  });
+
+  it("catches transposed digits", () => {
+    expect(verhoeffValid("324123412346")).toBe(false);
+  });
+});
+
+describe("compactId", () => {
+  it("drops spaces, dashes, slashes and dots and upper-cases", () => {
+    expect(compactId(" mh-02/2015.0001234 ")).toBe("MH0220150001234");
+  });
+});
+
+describe("aadhaar", () => {
+  it("accepts a valid number", () => {
+    expect(validateId("aadhaar", "234123412346")).toMatchObject({
+      valid: true,
+      detail: "Checksum verified",
+    });
+  });
+
+  it("accepts separators", () => {
+    expect(validateId("aadhaar", "2341 2341 2346").valid).toBe(true);
+    expect(validateId("aadhaar", "2341-2341-2346").valid).toBe(true);
+  });
+
+  it("rejects a wrong check digit", () => {
+    expect(validateId("aadhaar", "234123412347")).toMatchObject({
+      valid: false,
+      detail: "Checksum digit is wrong",
+    });
+  });
+
+  it("rejects the wrong length", () => {
+    expect(validateId("aadhaar", "23412341234").detail).toBe(
+      "Must be 12 digits"
+    );
+    expect(validateId("aadhaar", "2341234123461").valid).toBe(false);
+  });
+
+  it("rejects numbers starting with 0 or 1", () => {
+    expect(validateId("aadhaar", "123412341234").detail).toBe(
+      "Cannot start with 0 or 1"
+    );
+  });
+
+  it("rejects a masked value", () => {
+    expect(validateId("aadhaar", "XXXX XXXX 2346").valid).toBe(false);
+  });
+});
+
+describe("pan", () => {
+  it("accepts a valid PAN and names the holder type", () => {
+    expect(validateId("pan", "ABCPE1234F")).toMatchObject({
+      valid: true,
+      detail: "Issued to: Individual",
+    });
+    expect(validateId("pan", "aaacb1234c").detail).toBe("Issued to: Company");
+  });
+
+  it("rejects an unknown holder type", () => {
+    expect(validateId("pan", "ABCXE1234F")).toMatchObject({
+      valid: false,
+      detail: 'Unknown holder type "X"',
+    });
+  });
+
+  it("rejects the wrong length or shape", () => {
+    expect(validateId("pan", "ABCPE1234").valid).toBe(false);
+    expect(validateId("pan", "ABCPE12345").valid).toBe(false);
+    expect(validateId("pan", "1BCPE1234F").valid).toBe(false);
+  });
+
+  it("accepts separators and rejects a masked value", () => {
+    expect(validateId("pan", "ABCPE 1234 F").valid).toBe(true);
+    expect(validateId("pan", "XXXXX1234F").valid).toBe(false);
+  });
+});
+
+describe("passport", () => {
+  it("accepts a valid number", () => {
+    expect(validateId("passport", "J8369854").valid).toBe(true);
+  });
+
+  it("rejects letters not used for passports", () => {
+    expect(validateId("passport", "Q8369854").valid).toBe(false);
+    expect(validateId("passport", "X8369854").valid).toBe(false);
+    expect(validateId("passport", "Z8369854").valid).toBe(false);
+  });
+
+  it("rejects a zero in the first or last digit", () => {
+    expect(validateId("passport", "J0369854").valid).toBe(false);
+    expect(validateId("passport", "J8369850").valid).toBe(false);
+  });
+
+  it("rejects the wrong length", () => {
+    expect(validateId("passport", "J836985").valid).toBe(false);
+    expect(validateId("passport", "J83698541").valid).toBe(false);
+  });
+
+  it("accepts separators and rejects a masked value", () => {
+    expect(validateId("passport", "J 836 9854").valid).toBe(true);
+    expect(validateId("passport", "JXXXX854").valid).toBe(false);
+  });
+});
+
+describe("ifsc", () => {
+  it("accepts a valid code and names the bank", () => {
+    expect(validateId("ifsc", "SBIN0001234")).toMatchObject({
+      valid: true,
+      detail: "Bank code SBIN",
+    });
+  });
+
+  it("requires a 0 as the fifth character", () => {
+    expect(validateId("ifsc", "SBIN1001234").valid).toBe(false);
+  });
+
+  it("rejects the wrong length", () => {
+    expect(validateId("ifsc", "SBIN000123").valid).toBe(false);
+    expect(validateId("ifsc", "SBIN00012345").valid).toBe(false);
+  });
+
+  it("accepts separators and rejects a masked value", () => {
+    expect(validateId("ifsc", "sbin-0001234").valid).toBe(true);
+    expect(validateId("ifsc", "SBIN0****34").valid).toBe(false);
+  });
+});
+
+describe("gstin", () => {
+  it("computes the check character", () => {
+    expect(gstinCheckCharacter("27AAPFU0939F1Z")).toBe("V");
+    expect(gstinCheckCharacter("29AAGCB7383J1Z")).toBe("4");
+  });
+
+  it("accepts valid numbers", () => {
+    expect(validateId("gstin", "27AAPFU0939F1ZV").valid).toBe(true);
+    expect(validateId("gstin", "29AAGCB7383J1Z4").valid).toBe(true);
+  });
+
+  it("rejects a wrong check character", () => {
+    expect(validateId("gstin", "27AAPFU0939F1ZW")).toMatchObject({
+      valid: false,
+      detail: "Check character is wrong",
+    });
+  });
+
+  it("rejects an unknown state code", () => {
+    expect(validateId("gstin", "40AAPFU0939F1ZV").detail).toBe(
+      "Unknown state code 40"
+    );
+  });
+
+  it("rejects the wrong length", () => {
+    expect(validateId("gstin", "27AAPFU0939F1Z").valid).toBe(false);
+    expect(validateId("gstin", "27AAPFU0939F1ZVV").valid).toBe(false);
+  });
+
+  it("accepts separators and rejects a masked value", () => {
+    expect(validateId("gstin", "27 AAPFU0939F 1ZV").valid).toBe(true);
+    expect(validateId("gstin", "27XXXXX0939F1ZV").valid).toBe(false);
+  });
+});
+
+describe("epic", () => {
+  it("accepts a valid number", () => {
+    expect(validateId("epic", "ABC1234567").valid).toBe(true);
+  });
+
+  it("rejects the wrong length or shape", () => {
+    expect(validateId("epic", "ABC123456").valid).toBe(false);
+    expect(validateId("epic", "ABC12345678").valid).toBe(false);
+    expect(validateId("epic", "AB12345678").valid).toBe(false);
+  });
+
+  it("accepts separators and rejects a masked value", () => {
+    expect(validateId("epic", "abc/1234567").valid).toBe(true);
+    expect(validateId("epic", "ABCXXXX567").valid).toBe(false);
+  });
+});
+
+describe("driving_licence", () => {
+  it("accepts a valid number and describes it", () => {
+    expect(validateId("driving_licence", "MH0220150001234")).toMatchObject({
+      valid: true,
+      detail: "Issued by MH-02 in 2015",
+    });
+  });
+
+  it("rejects an unknown state code", () => {
+    expect(validateId("driving_licence", "ZZ0220150001234").detail).toBe(
+      "Unknown state code ZZ"
+    );
+  });
+
+  it("rejects an implausible issue year", () => {
+    expect(validateId("driving_licence", "MH0218500001234").valid).toBe(false);
+    expect(validateId("driving_licence", "MH0299990001234").valid).toBe(false);
+  });
+
+  it("rejects the wrong length", () => {
+    expect(validateId("driving_licence", "MH022015000123").valid).toBe(false);
+    expect(validateId("driving_licence", "MH02201500012345").valid).toBe(false);
+  });
+
+  it("accepts separators and rejects a masked value", () => {
+    expect(validateId("driving_licence", "MH-02 2015 0001234").valid).toBe(
+      true
+    );
+    expect(validateId("driving_licence", "MH02XXXX0001234").valid).toBe(false);
+  });
+});
+
+describe("validateDocumentIds", () => {
+  it("validates identifiers found by key name, at any depth", () => {
+    const results = validateDocumentIds({
+      name: "Asha Rao",
+      "Aadhaar Number": "2341 2341 2346",
+      tax: { PAN: "ABCPE1234X" },
+    });
+    expect(results).toEqual([
+      expect.objectContaining({
+        kind: "aadhaar",
+        path: "Aadhaar Number",
+        valid: true,
+      }),
+      expect.objectContaining({ kind: "pan", path: "tax.PAN", valid: true }),
+    ]);
+  });
+
+  it("reports invalid identifiers", () => {
+    const [result] = validateDocumentIds({ gstin: "27AAPFU0939F1ZW" });
+    expect(result).toMatchObject({ kind: "gstin", valid: false });
+  });
+
+  it("skips masked values", () => {
+    expect(
+      validateDocumentIds({
+        aadhaar_number: "XXXX XXXX 2346",
+        pan: "*****1234F",
+      })
+    ).toEqual([]);
+  });
+
+  it("skips empty values and unrelated keys", () => {
+    expect(
+      validateDocumentIds({ aadhaar_number: null, address: "12 MG Road" })
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,287 @@
+import {
+  entryText,
+  flattenDocumentData,
+  normalizeKey,
+} from "@/lib/document-data";
+import type { DocumentData } from "@/lib/schemas";
+
+export const ID_KINDS = [
+  "aadhaar",
+  "pan",
+  "passport",
+  "ifsc",
+  "gstin",
+  "epic",
+  "driving_licence",
+] as const;
+
+export type IdKind = (typeof ID_KINDS)[number];
+
+export interface IdValidation {
+  kind: IdKind;
+  // Dotted path of the value in the document data, when run over a document.
+  path?: string;
+  value: string;
+  valid: boolean;
+  // Why an invalid value was rejected, or what a valid one encodes.
+  detail: string;
+}
+
+interface IdValidator {
+  label: string;
+  // Document keys holding this identifier. Document types resolve their
+  // identifier fields from these too.
+  aliases: string[];
+  // Matched against the normalised key, to catch variants such as
+  // "aadhaar_card_number" that no alias lists.
+  keyPattern: RegExp;
+  check: (compact: string) => { valid: boolean; detail: string };
+}
+
+// Verhoeff dihedral-group tables, as used by UIDAI for the Aadhaar check digit.
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+export function verhoeffValid(digits: string): boolean {
+  let checksum = 0;
+  [...digits].reverse().forEach((digit, i) => {
+    checksum = VERHOEFF_D[checksum][VERHOEFF_P[i % 8][Number(digit)]];
+  });
+  return checksum === 0;
+}
+
+// Fourth character of a PAN: the kind of holder it was issued to.
+const PAN_ENTITY_TYPES: Record<string, string> = {
+  P: "Individual",
+  C: "Company",
+  H: "Hindu Undivided Family",
+  F: "Firm",
+  A: "Association of Persons",
+  T: "Trust",
+  B: "Body of Individuals",
+  L: "Local Authority",
+  J: "Artificial Juridical Person",
+  G: "Government",
+};
+
+const GSTIN_CHARSET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+export function gstinCheckCharacter(first14: string): string {
+  const sum = [...first14].reduce((total, char, i) => {
+    const product = GSTIN_CHARSET.indexOf(char) * (i % 2 === 0 ? 1 : 2);
+    return total + Math.floor(product / 36) + (product % 36);
+  }, 0);
+  return GSTIN_CHARSET[(36 - (sum % 36)) % 36];
+}
+
+function isGstStateCode(code: string): boolean {
+  const number = Number(code);
+  return (number >= 1 && number <= 38) || number === 97 || number === 99;
+}
+
+// State and union territory codes used as driving licence prefixes, including
+// the older OR, UA and DD/DN codes still on valid licences.
+const LICENCE_STATE_CODES = new Set([
+  "AN",
+  "AP",
+  "AR",
+  "AS",
+  "BR",
+  "CG",
+  "CH",
+  "DD",
+  "DL",
+  "DN",
+  "GA",
+  "GJ",
+  "HP",
+  "HR",
+  "JH",
+  "JK",
+  "KA",
+  "KL",
+  "LA",
+  "LD",
+  "MH",
+  "ML",
+  "MN",
+  "MP",
+  "MZ",
+  "NL",
+  "OD",
+  "OR",
+  "PB",
+  "PY",
+  "RJ",
+  "SK",
+  "TN",
+  "TR",
+  "TS",
+  "UA",
+  "UK",
+  "UP",
+  "WB",
+]);
+
+const invalid = (detail: string) => ({ valid: false, detail });
+const valid = (detail: string) => ({ valid: true, detail });
+
+export const ID_VALIDATORS: Record<IdKind, IdValidator> = {
+  aadhaar: {
+    label: "Aadhaar",
+    aliases: [
+      "aadhaar_number",
+      "aadhar_number",
+      "aadhaar_no",
+      "aadhaar",
+      "uid",
+    ],
+    keyPattern: /^(aadha?ar|uid)(card)?(number|no|num)?$/,
+    check: (compact) => {
+      if (!/^\d{12}$/.test(compact)) return invalid("Must be 12 digits");
+      if (/^[01]/.test(compact)) return invalid("Cannot start with 0 or 1");
+      if (!verhoeffValid(compact)) return invalid("Checksum digit is wrong");
+      return valid("Checksum verified");
+    },
+  },
+  pan: {
+    label: "PAN",
+    aliases: ["pan_number", "pan", "pan_no", "permanent_account_number"],
+    keyPattern: /^pan(card)?(number|no|num)?$/,
+    check: (compact) => {
+      if (!/^[A-Z]{5}\d{4}[A-Z]$/.test(compact)) {
+        return invalid("Must be 5 letters, 4 digits and a letter");
+      }
+      const entity = PAN_ENTITY_TYPES[compact[3]];
+      return entity
+        ? valid(`Issued to: ${entity}`)
+        : invalid(`Unknown holder type "${compact[3]}"`);
+    },
+  },
+  passport: {
+    label: "Passport Number",
+    aliases: ["passport_number", "passport_no", "passport"],
+    keyPattern: /^passport(number|no|num)?$/,
+    check: (compact) =>
+      /^[A-PR-WY][1-9]\d{5}[1-9]$/.test(compact)
+        ? valid("Format verified")
+        : invalid("Must be a letter followed by 7 digits"),
+  },
+  ifsc: {
+    label: "IFSC",
+    aliases: ["ifsc", "ifsc_code"],
+    keyPattern: /^ifsc(code)?$/,
+    check: (compact) =>
+      /^[A-Z]{4}0[A-Z0-9]{6}$/.test(compact)
+        ? valid(`Bank code ${compact.slice(0, 4)}`)
+        : invalid("Must be 4 letters, a 0 and 6 letters or digits"),
+  },
+  gstin: {
+    label: "GSTIN",
+    aliases: ["gstin", "gst_number", "gst_no", "gstin_number"],
+    keyPattern: /^gst(in)?(number|no|num)$|^gstin$/,
+    check: (compact) => {
+      if (!/^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/.test(compact)) {
+        return invalid("Must be a state code, PAN, entity code, Z and check");
+      }
+      if (!isGstStateCode(compact.slice(0, 2))) {
+        return invalid(`Unknown state code ${compact.slice(0, 2)}`);
+      }
+      if (gstinCheckCharacter(compact.slice(0, 14)) !== compact[14]) {
+        return invalid("Check character is wrong");
+      }
+      return valid("Checksum verified");
+    },
+  },
+  epic: {
+    label: "EPIC Number",
+    aliases: ["epic_number", "epic_no", "voter_id", "voter_id_number", "epic"],
+    keyPattern: /^(epic|voterid)(card)?(number|no|num)?$/,
+    check: (compact) =>
+      /^[A-Z]{3}\d{7}$/.test(compact)
+        ? valid("Format verified")
+        : invalid("Must be 3 letters followed by 7 digits"),
+  },
+  driving_licence: {
+    label: "Licence Number",
+    aliases: [
+      "dl_number",
+      "dl_no",
+      "licence_number",
+      "license_number",
+      "licence_no",
+      "license_no",
+    ],
+    keyPattern: /^(dl|(driving)?licen[cs]e)(number|no|num)$/,
+    check: (compact) => {
+      const match = compact.match(/^([A-Z]{2})(\d{2})(\d{4})(\d{7})$/);
+      if (!match) {
+        return invalid("Must be state code, RTO code, year and 7 digits");
+      }
+      if (!LICENCE_STATE_CODES.has(match[1])) {
+        return invalid(`Unknown state code ${match[1]}`);
+      }
+      const year = Number(match[3]);
+      if (year < 1900 || year > new Date().getFullYear()) {
+        return invalid(`Issue year ${year} is not plausible`);
+      }
+      return valid(`Issued by ${match[1]}-${match[2]} in ${year}`);
+    },
+  },
+};
+
+export function compactId(value: string): string {
+  return value.replace(/[\s\-/.]/g, "").toUpperCase();
+}
+
+export function validateId(kind: IdKind, value: string): IdValidation {
+  return { kind, value, ...ID_VALIDATORS[kind].check(compactId(value)) };
+}
+
+const KIND_BY_KEY = new Map(
+  ID_KINDS.flatMap((kind) =>
+    ID_VALIDATORS[kind].aliases.map((alias) => [normalizeKey(alias), kind])
+  )
+);
+
+// The identifier a normalised document key holds, if any.
+export function idKindForKey(key: string): IdKind | null {
+  return (
+    KIND_BY_KEY.get(key) ??
+    ID_KINDS.find((kind) => ID_VALIDATORS[kind].keyPattern.test(key)) ??
+    null
+  );
+}
+
+// Validates every identifier in a document's data, recognised by key name.
+// Masked values (e.g. "XXXX XXXX 1234") are skipped; they cannot be checked.
+export function validateDocumentIds(data: DocumentData): IdValidation[] {
+  return flattenDocumentData(data).flatMap((entry) => {
+    const kind = idKindForKey(entry.key);
+    const value = entryText(entry);
+    if (!kind || !value || /[X*]{4}/i.test(value)) {
+      return [];
+    }
+    return [{ ...validateId(kind, value), path: entry.path }];
+  });
+}
@@ -0,0 +1,193 @@
+import { describe, expect, it } from "vitest";
+import { parseLlmJson } from "@/lib/json-repair";
+
+describe("parseLlmJson", () => {
+  it("parses valid JSON without repairs", () => {
+    expect(parseLlmJson(' {"name": "Asha", "age": 34} ')).toEqual({
+      ok: true,
+      value: { name: "Asha", age: 34 },
+      repairs: [],
+    });
+  });
+
+  it("unwraps a code fence", () => {
+    expect(parseLlmJson('```json\n{"a": 1}\n```')).toEqual({
+      ok: true,
+      value: { a: 1 },
+      repairs: ["code-fence"],
+    });
+  });
+
+  it("unwraps an unclosed code fence", () => {
+    expect(parseLlmJson('```\n{"a": 1}')).toMatchObject({
+      ok: true,
+      value: { a: 1 },
+    });
+  });
+
+  it("removes prose around the JSON", () => {
+    expect(parseLlmJson('Here is the data: {"a": 1}. Done.')).toEqual({
+      ok: true,
+      value: { a: 1 },
+      repairs: ["surrounding-text"],
+    });
+  });
+
+  it("removes trailing commas", () => {
+    expect(parseLlmJson('{"a": [1, 2,], "b": 3,}')).toEqual({
+      ok: true,
+      value: { a: [1, 2], b: 3 },
+      repairs: ["trailing-commas"],
+    });
+  });
+
+  it("converts single-quoted strings", () => {
+    expect(parseLlmJson("{'name': 'O\\'Brien', 'note': 'say \"hi\"'}")).toEqual(
+      {
+        ok: true,
+        value: { name: "O'Brien", note: 'say "hi"' },
+        repairs: ["single-quotes"],
+      }
+    );
+  });
+
+  it("converts Python literals outside strings only", () => {
+    expect(parseLlmJson('{"a": True, "b": None, "c": "True"}')).toEqual({
+      ok: true,
+      value: { a: true, b: null, c: "True" },
+      repairs: ["python-literals"],
+    });
+  });
+
+  it("escapes raw line breaks inside strings", () => {
+    expect(parseLlmJson('{"address": "12 MG Road\nBengaluru"}')).toMatchObject({
+      ok: true,
+      value: { address: "12 MG Road\nBengaluru" },
+      repairs: ["control-characters"],
+    });
+  });
+
+  describe("truncated output", () => {
+    it("closes a truncated array", () => {
+      expect(parseLlmJson("[1, 2, 3")).toEqual({
+        ok: true,
+        value: [1, 2, 3],
+        repairs: ["unbalanced-brackets"],
+      });
+    });
+
+    it("closes a truncated array after a trailing comma", () => {
+      expect(parseLlmJson('["a", "b",')).toMatchObject({
+        ok: true,
+        value: ["a", "b"],
+      });
+    });
+
+    it("closes a truncated object", () => {
+      expect(parseLlmJson('{"a": {"b": 1')).toEqual({
+        ok: true,
+        value: { a: { b: 1 } },
+        repairs: ["unbalanced-brackets"],
+      });
+    });
+
+    it("closes an unterminated string", () => {
+      expect(parseLlmJson('{"name": "Asha R')).toEqual({
+        ok: true,
+        value: { name: "Asha R" },
+        repairs: ["unterminated-string", "unbalanced-brackets"],
+      });
+    });
+
+    it("fills a value cut off after its key", () => {
+      expect(parseLlmJson('{"a": 1, "b":')).toMatchObject({
+        ok: true,
+        value: { a: 1, b: null },
+        repairs: ["missing-value", "unbalanced-brackets"],
+      });
+      expect(parseLlmJson('{"a": 1, "b"')).toMatchObject({
+        ok: true,
+        value: { a: 1, b: null },
+      });
+    });
+  });
+
+  it("drops stray closing brackets", () => {
+    expect(parseLlmJson('{"a": 1}]}')).toMatchObject({
+      ok: true,
+      value: { a: 1 },
+    });
+    expect(parseLlmJson('{"a": [1]]}')).toMatchObject({
+      ok: true,
+      value: { a: [1] },
+      repairs: expect.arrayContaining(["stray-closing-brackets"]),
+    });
+  });
+
+  describe("prose with brackets", () => {
+    it("prefers the object over a bracketed note before it", () => {
+      expect(parseLlmJson('Result [1]: {"a": 1}')).toEqual({
+        ok: true,
+        value: { a: 1 },
+        repairs: ["surrounding-text"],
+      });
+    });
+
+    it("skips a bracketed note that is not JSON", () => {
+      expect(
+        parseLlmJson('Extracted [see notes]: {"name": "Asha"} (done)')
+      ).toMatchObject({ ok: true, value: { name: "Asha" } });
+    });
+
+    it("skips an unclosed bracket in the prose", () => {
+      expect(parseLlmJson('Result [1: {"a": 1}')).toMatchObject({
+        ok: true,
+        value: { a: 1 },
+      });
+    });
+
+    it("finds a truncated object after a bracketed note", () => {
+      expect(parseLlmJson('Result [1]: {"a": 1, "b": [2')).toMatchObject({
+        ok: true,
+        value: { a: 1, b: [2] },
+      });
+    });
+
+    it("keeps an array of objects whole", () => {
+      expect(parseLlmJson('Documents: [{"a": 1}, {"b": 2}]')).toEqual({
+        ok: true,
+        value: [{ a: 1 }, { b: 2 }],
+        repairs: ["surrounding-text"],
+      });
+    });
+
+    it("falls back to an array when no object parses", () => {
+      expect(parseLlmJson("Scores [see below]: [1, 2]")).toMatchObject({
+        ok: true,
+        value: [1, 2],
+      });
+    });
+  });
+
+  it("gives up on large malformed output after a few attempts", () => {
+    const started = performance.now();
+    expect(parseLlmJson(`Notes: ${"[a (".repeat(20000)}`)).toMatchObject({
+      ok: false,
+    });
+    expect(performance.now() - started).toBeLessThan(2000);
+  });
+
+  it("does not try spans nested in a closed span on their own", () => {
+    expect(parseLlmJson('Note [see {"x": 1} below] [2, 3]')).toMatchObject({
+      ok: true,
+      value: [2, 3],
+    });
+  });
+
+  it("reports failure for text with no JSON in it", () => {
+    expect(parseLlmJson("I could not read this document.")).toEqual({
+      ok: false,
+      repairs: [],
+    });
+  });
+});
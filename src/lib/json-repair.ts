@@ -0,0 +1,313 @@
+// Tolerant parser for the JSON the extraction model returns. The backend passes
+// model output through as-is, so a document often arrives wrapped in a code
+// fence or prose, with Python-style quoting, trailing commas, or cut off
+// mid-object. Each fix applied is reported so the UI can flag repaired output.
+
+export const JSON_REPAIRS = [
+  "code-fence",
+  "surrounding-text",
+  "single-quotes",
+  "python-literals",
+  "control-characters",
+  "trailing-commas",
+  "unterminated-string",
+  "missing-value",
+  "unbalanced-brackets",
+  "stray-closing-brackets",
+] as const;
+
+export type JsonRepair = (typeof JSON_REPAIRS)[number];
+
+export type ParsedJson =
+  | { ok: true; value: unknown; repairs: JsonRepair[] }
+  | { ok: false; repairs: JsonRepair[] };
+
+export const JSON_REPAIR_LABELS: Record<JsonRepair, string> = {
+  "code-fence": "Removed code fence",
+  "surrounding-text": "Removed text around the JSON",
+  "single-quotes": "Converted single-quoted strings",
+  "python-literals": "Converted True/False/None",
+  "control-characters": "Escaped line breaks inside strings",
+  "trailing-commas": "Removed trailing commas",
+  "unterminated-string": "Closed an unterminated string",
+  "missing-value": "Filled a missing value with null",
+  "unbalanced-brackets": "Closed unbalanced brackets or braces",
+  "stray-closing-brackets": "Dropped stray closing brackets",
+};
+
+const CODE_FENCE_PATTERN = /```[\w-]*[ \t]*\r?\n?([\s\S]*?)(?:```|$)/;
+
+const PYTHON_LITERALS: Record<string, string> = {
+  True: "true",
+  False: "false",
+  None: "null",
+};
+
+const ESCAPED_CONTROL_CHARACTERS: Record<string, string> = {
+  "\n": "\\n",
+  "\r": "\\r",
+  "\t": "\\t",
+};
+
+function tryParse(text: string): { ok: true; value: unknown } | { ok: false } {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+// Index of the bracket closing the one opened at `start`, or -1 when the
+// input is truncated before it closes.
+function closingIndex(text: string, start: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (escaped) {
+        escaped = false;
+      } else if (ch === "\\") {
+        escaped = true;
+      } else if (ch === quote) {
+        quote = null;
+      }
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === "{" || ch === "[") {
+      depth++;
+    } else if (ch === "}" || ch === "]") {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+interface JsonCandidate {
+  value: unknown;
+  repairs: Set<JsonRepair>;
+}
+
+// Each attempt re-runs the repair over the rest of the text, so only this
+// many spans are tried before giving up.
+const MAX_CANDIDATES = 8;
+
+// Tries the span from each `{` or `[` in turn. Prose around the JSON can hold
+// brackets of its own ("Result [1]: {...}"), so the first span that parses to
+// an object wins over an earlier array. Spans inside a closed span already
+// tried, parsed or not, are not tried on their own: they are its elements or
+// part of the same prose.
+function findJson(text: string): JsonCandidate | null {
+  let array: JsonCandidate | null = null;
+  let attempts = 0;
+  let skipUntil = 0;
+
+  for (
+    let start = text.search(/[{[]/);
+    start !== -1 && attempts < MAX_CANDIDATES;
+    start = nextOpener(text, Math.max(start + 1, skipUntil))
+  ) {
+    attempts++;
+    const close = closingIndex(text, start);
+    const end = close === -1 ? text.length : close + 1;
+    const repairs = new Set<JsonRepair>();
+    if (text.slice(0, start).trim() !== "" || text.slice(end).trim() !== "") {
+      repairs.add("surrounding-text");
+    }
+    const result = tryParse(repairStructure(text.slice(start, end), repairs));
+    if (close !== -1) {
+      skipUntil = end;
+    }
+    if (!result.ok) {
+      continue;
+    }
+    if (!Array.isArray(result.value)) {
+      return { value: result.value, repairs };
+    }
+    array ??= { value: result.value, repairs };
+  }
+  return array;
+}
+
+function nextOpener(text: string, from: number): number {
+  const index = text.slice(from).search(/[{[]/);
+  return index === -1 ? -1 : from + index;
+}
+
+function stripTrailingComma(out: string, repairs: Set<JsonRepair>): string {
+  const trimmed = out.trimEnd();
+  if (trimmed.endsWith(",")) {
+    repairs.add("trailing-commas");
+    return trimmed.slice(0, -1);
+  }
+  return out;
+}
+
+// Single pass over the candidate that normalises strings to double quotes,
+// escapes raw control characters, maps Python literals, drops trailing commas
+// and closes whatever the input left open.
+function repairStructure(text: string, repairs: Set<JsonRepair>): string {
+  const closers: string[] = [];
+  let out = "";
+  let quote: string | null = null;
+  let escaped = false;
+  let lastSignificant = "";
+  let stringOpenedAfter = "";
+  let lastStringEnd = -1;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (quote) {
+      if (escaped) {
+        escaped = false;
+        // `\'` is not a valid JSON escape; the quote needs no escaping at all.
+        out = ch === "'" ? `${out.slice(0, -1)}'` : out + ch;
+        continue;
+      }
+      if (ch === "\\") {
+        escaped = true;
+        out += ch;
+      } else if (ch === quote) {
+        quote = null;
+        out += '"';
+        lastSignificant = '"';
+        lastStringEnd = out.length;
+      } else if (ch === '"') {
+        out += '\\"';
+      } else if (ESCAPED_CONTROL_CHARACTERS[ch]) {
+        repairs.add("control-characters");
+        out += ESCAPED_CONTROL_CHARACTERS[ch];
+      } else {
+        out += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      if (ch === "'") {
+        repairs.add("single-quotes");
+      }
+      quote = ch;
+      stringOpenedAfter = lastSignificant;
+      out += '"';
+      continue;
+    }
+
+    if (ch === "{" || ch === "[") {
+      closers.push(ch === "{" ? "}" : "]");
+      out += ch;
+      lastSignificant = ch;
+      continue;
+    }
+
+    if (ch === "}" || ch === "]") {
+      if (!closers.includes(ch)) {
+        repairs.add("stray-closing-brackets");
+        continue;
+      }
+      while (closers[closers.length - 1] !== ch) {
+        repairs.add("unbalanced-brackets");
+        out = stripTrailingComma(out, repairs) + closers.pop();
+      }
+      out = stripTrailingComma(out, repairs) + closers.pop();
+      lastSignificant = ch;
+      continue;
+    }
+
+    if (/[A-Za-z]/.test(ch)) {
+      const word = text.slice(i).match(/^[A-Za-z_]+/)![0];
+      if (PYTHON_LITERALS[word]) {
+        repairs.add("python-literals");
+        out += PYTHON_LITERALS[word];
+      } else {
+        out += word;
+      }
+      i += word.length - 1;
+      lastSignificant = "w";
+      continue;
+    }
+
+    out += ch;
+    if (!/\s/.test(ch)) {
+      lastSignificant = ch;
+    }
+  }
+
+  if (quote) {
+    repairs.add("unterminated-string");
+    if (escaped) {
+      out = out.slice(0, -1);
+    }
+    out += '"';
+    lastStringEnd = out.length;
+  }
+
+  if (closers.length > 0) {
+    repairs.add("unbalanced-brackets");
+    const trimmed = out.trimEnd();
+    const endsWithKey =
+      trimmed.length === lastStringEnd &&
+      closers[closers.length - 1] === "}" &&
+      (stringOpenedAfter === "{" || stringOpenedAfter === ",");
+
+    if (trimmed.endsWith(":") || endsWithKey) {
+      repairs.add("missing-value");
+      out = `${trimmed}${endsWithKey ? ":" : ""} null`;
+    }
+
+    while (closers.length > 0) {
+      out = stripTrailingComma(out, repairs) + closers.pop();
+    }
+  }
+
+  return out;
+}
+
+function applied(repairs: Set<JsonRepair>): JsonRepair[] {
+  return JSON_REPAIRS.filter((repair) => repairs.has(repair));
+}
+
+export function parseLlmJson(input: string): ParsedJson {
+  let text = input.trim();
+
+  const direct = tryParse(text);
+  if (direct.ok) {
+    return { ok: true, value: direct.value, repairs: [] };
+  }
+
+  const repairs = new Set<JsonRepair>();
+
+  const fence = text.match(CODE_FENCE_PATTERN);
+  if (fence) {
+    repairs.add("code-fence");
+    text = fence[1].trim();
+  }
+
+  // Without any brackets the text may still be a repairable literal.
+  let value: unknown;
+  if (/[{[]/.test(text)) {
+    const found = findJson(text);
+    if (!found) {
+      return { ok: false, repairs: applied(repairs) };
+    }
+    found.repairs.forEach((repair) => repairs.add(repair));
+    value = found.value;
+  } else {
+    const result = tryParse(repairStructure(text, repairs));
+    if (!result.ok) {
+      return { ok: false, repairs: applied(repairs) };
+    }
+    value = result.value;
+  }
+
+  return { ok: true, value, repairs: applied(repairs) };
+}
@@ -0,0 +1,37 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { KycApiError, processKyc, type KYCRequest } from "@/lib/kyc-api";
+
+const request: KYCRequest = {
+  documentData: [],
+  verificationSummary: {
+    identityVerified: true,
+    riskScore: "Low",
+    recommendedAction: "Approve",
+  },
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("processKyc", () => {
+  it("raises an API error for a 200 response that isn't JSON", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        async () =>
+          new Response("<html>Gateway</html>", {
+            status: 200,
+            headers: { "Content-Type": "text/html" },
+          })
+      )
+    );
+
+    const result = processKyc(request);
+    await expect(result).rejects.toBeInstanceOf(KycApiError);
+    await expect(result).rejects.toMatchObject({
+      message: "KYC Processing failed: the response is not valid JSON",
+      status: 200,
+    });
+  });
+});
@@ -0,0 +1,633 @@
+import { getApiBaseUrl } from "@/lib/config";
+import type { ConsistencyFinding } from "@/lib/consistency";
+import type { FieldChange } from "@/lib/document-edits";
+import { detectDocumentType } from "@/lib/document-types";
+import { storedFileName } from "@/lib/file-validation";
+import { parseLlmJson } from "@/lib/json-repair";
+import type { PreCheckSummary } from "@/lib/pre-check";
+import { getDecisionEndpoint } from "@/lib/review-decision";
+import {
+  isStreamingResponse,
+  readProgressStream,
+  STREAM_ACCEPT_HEADER,
+  StreamError,
+} from "@/lib/progress-stream";
+import {
+  caseRecordSchema,
+  jobAcceptedSchema,
+  jobSchema,
+  kycResultSchema,
+  parseResponse,
+  processDocsResponseSchema,
+  type Document,
+  type CaseRecord,
+  type DocumentData,
+  type DocumentValue,
+  type Job,
+  type JobMetadata,
+  type KYCResult,
+  type ProcessedDocument,
+  type ProgressUpdate,
+  type ReviewDecision,
+  type UploadedFile,
+  type VerificationSummary,
+} from "@/lib/schemas";
+
+export type {
+  BoundingBox,
+  CaseRecord,
+  ComplianceCheck,
+  Document,
+  DocumentData,
+  DocumentStatus,
+  FraudDetection,
+  KYCResult,
+  ProgressUpdate,
+  ReviewDecision,
+  RiskAssessment,
+  UploadedFile,
+  VerificationSummary,
+} from "@/lib/schemas";
+
+export interface ExtractedData {
+  documents: Document[];
+  verificationSummary: PreCheckSummary;
+}
+
+export interface KYCRequest {
+  documentData: {
+    document_id: string;
+    filename: string;
+    type: string;
+    data: DocumentData;
+    reviewer_edits?: FieldChange[];
+  }[];
+  verificationSummary: VerificationSummary;
+  consistencyChecks?: ConsistencyFinding[];
+}
+
+export interface ProcessingOptions {
+  onProgress?: (update: ProgressUpdate) => void;
+  // Opts into the backend's async job mode; called once the job is accepted.
+  onJobCreated?: (jobId: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface ResumedSession {
+  extractionJobId: string;
+  documents: Document[];
+  kycJobId?: string;
+  kycResult?: KYCResult;
+}
+
+const JOB_POLL_INTERVAL_MS = 2000;
+
+export interface UploadOptions {
+  signal?: AbortSignal;
+  onProgress?: (loaded: number, total: number) => void;
+}
+
+export class UploadCancelledError extends Error {
+  constructor(filename: string) {
+    super(`Upload of ${filename} was cancelled`);
+    this.name = "UploadCancelledError";
+  }
+}
+
+export class KycApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "KycApiError";
+    this.status = status;
+  }
+}
+
+function endpoint(path: string): string {
+  return `${getApiBaseUrl()}${path}`;
+}
+
+function errorMessageFromBody(text: string, fallback: string): string {
+  try {
+    const body = JSON.parse(text);
+    return body?.message || body?.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+async function readErrorMessage(response: Response): Promise<string> {
+  return errorMessageFromBody(await response.text(), response.statusText);
+}
+
+// A successful response whose body is not JSON fails like any other API
+// error, not with a bare `SyntaxError`.
+async function readJson(
+  response: Response,
+  errorPrefix: string
+): Promise<unknown> {
+  const text = await response.text();
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new KycApiError(
+      `${errorPrefix}: the response is not valid JSON`,
+      response.status
+    );
+  }
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export async function getJob(
+  jobId: string,
+  signal?: AbortSignal
+): Promise<Job> {
+  const response = await fetch(endpoint(`/jobs/${encodeURIComponent(jobId)}`), {
+    headers: { Accept: "application/json" },
+    cache: "no-store",
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new KycApiError(
+      `Failed to load job ${jobId}: ${await readErrorMessage(response)}`,
+      response.status
+    );
+  }
+
+  return parseResponse(
+    jobSchema,
+    await readJson(response, `Failed to load job ${jobId}`),
+    "job"
+  );
+}
+
+// Polls a job until it finishes, forwarding its progress as it goes.
+export async function waitForJob(
+  jobId: string,
+  { onProgress, signal }: ProcessingOptions = {},
+  errorPrefix = "Job failed"
+): Promise<Job> {
+  while (true) {
+    const job = await getJob(jobId, signal);
+    if (job.progress) {
+      onProgress?.(job.progress);
+    }
+
+    if (job.status === "succeeded") {
+      return job;
+    }
+    if (job.status === "failed") {
+      throw new KycApiError(
+        `${errorPrefix}: ${job.error || "unknown error"}`,
+        500
+      );
+    }
+
+    await delay(JOB_POLL_INTERVAL_MS, signal);
+  }
+}
+
+// Processing endpoints may answer with a progress stream, an accepted async
+// job (202) or plain JSON; either way this resolves with the final payload.
+async function postJson<T>(
+  path: string,
+  payload: unknown,
+  errorPrefix: string,
+  options: ProcessingOptions = {},
+  jobMetadata?: JobMetadata
+): Promise<T> {
+  const { onProgress, onJobCreated, signal } = options;
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    Accept: STREAM_ACCEPT_HEADER,
+  };
+  if (onJobCreated) {
+    headers.Prefer = "respond-async";
+  }
+
+  const response = await fetch(endpoint(path), {
+    method: "POST",
+    headers,
+    body: JSON.stringify(
+      onJobCreated && jobMetadata
+        ? { ...(payload as object), metadata: jobMetadata }
+        : payload
+    ),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new KycApiError(
+      `${errorPrefix}: ${await readErrorMessage(response)}`,
+      response.status
+    );
+  }
+
+  if (response.status === 202) {
+    const { job_id } = parseResponse(
+      jobAcceptedSchema,
+      await readJson(response, errorPrefix),
+      "job submission"
+    );
+    onJobCreated?.(job_id);
+    const job = await waitForJob(job_id, options, errorPrefix);
+    return job.result as T;
+  }
+
+  if (!isStreamingResponse(response)) {
+    return (await readJson(response, errorPrefix)) as T;
+  }
+
+  try {
+    return (await readProgressStream(response, onProgress)) as T;
+  } catch (err) {
+    if (err instanceof StreamError) {
+      throw new KycApiError(`${errorPrefix}: ${err.message}`, err.status);
+    }
+    throw err;
+  }
+}
+
+function isPlainObject(value: unknown): value is DocumentData {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseDocumentJson(
+  jsonString: string
+): Pick<Document, "type" | "data" | "repairs" | "unparsed"> {
+  const parsed = parseLlmJson(jsonString);
+  if (!parsed.ok) {
+    console.error("Failed to parse JSON:", jsonString);
+    return { type: "unknown", data: { raw_data: jsonString }, unparsed: true };
+  }
+
+  const data = isPlainObject(parsed.value)
+    ? parsed.value
+    : { items: parsed.value as DocumentValue };
+
+  return {
+    type: detectDocumentType(data),
+    data,
+    repairs: parsed.repairs.length > 0 ? parsed.repairs : undefined,
+  };
+}
+
+export function createDocumentId(): string {
+  return crypto.randomUUID();
+}
+
+// Uses XHR rather than fetch because fetch exposes no upload progress events.
+export function uploadDocument(
+  file: File,
+  documentId: string,
+  { signal, onProgress }: UploadOptions = {}
+): Promise<UploadedFile> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new UploadCancelledError(file.name));
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append("file", file);
+    formData.append("document_id", documentId);
+
+    const xhr = new XMLHttpRequest();
+    const abort = () => xhr.abort();
+    const cleanup = () => signal?.removeEventListener("abort", abort);
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress?.(event.loaded, event.total);
+      }
+    };
+
+    xhr.onload = () => {
+      cleanup();
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve({
+          documentId,
+          filename: file.name,
+          storedName: storedFileName(file.name),
+        });
+        return;
+      }
+
+      reject(
+        new KycApiError(
+          `Failed to upload ${file.name}: ${errorMessageFromBody(
+            xhr.responseText,
+            xhr.statusText
+          )}`,
+          xhr.status
+        )
+      );
+    };
+
+    xhr.onerror = () => {
+      cleanup();
+      reject(
+        new KycApiError(`Failed to upload ${file.name}: network error`, 0)
+      );
+    };
+
+    xhr.onabort = () => {
+      cleanup();
+      reject(new UploadCancelledError(file.name));
+    };
+
+    signal?.addEventListener("abort", abort, { once: true });
+    xhr.open("POST", endpoint("/upload"));
+    xhr.send(formData);
+  });
+}
+
+function toDocument(upload: UploadedFile, result: ProcessedDocument): Document {
+  if (result.status !== "ok" || result.data === undefined) {
+    return {
+      id: upload.documentId,
+      filename: upload.filename,
+      type: "unknown",
+      status: result.status === "ok" ? "failed" : result.status,
+      error: result.error || "The backend returned no extracted data",
+      data: {},
+    };
+  }
+
+  return {
+    id: upload.documentId,
+    filename: upload.filename,
+    status: "processed",
+    boundingBoxes: result.bounding_boxes,
+    ...parseDocumentJson(result.data),
+  };
+}
+
+function missingDocument(upload: UploadedFile, error: string): Document {
+  return {
+    id: upload.documentId,
+    filename: upload.filename,
+    type: "unknown",
+    status: "skipped",
+    error,
+    data: {},
+  };
+}
+
+function unmatchedDocument(
+  id: string,
+  label: string,
+  content: string
+): Document {
+  return {
+    id: `unmatched-${id}`,
+    filename: label,
+    status: "unmatched",
+    error: "This result could not be matched to an uploaded file",
+    ...parseDocumentJson(content),
+  };
+}
+
+// Legacy backends return bare strings, so the only link to the uploads is
+// their position. That is trusted only when the counts agree; otherwise every
+// result is surfaced as unmatched rather than guessed onto the wrong file.
+function correlateByPosition(
+  uploads: UploadedFile[],
+  results: string[]
+): Document[] {
+  if (results.length === uploads.length) {
+    return uploads.map((upload, index) =>
+      toDocument(upload, {
+        document_id: upload.documentId,
+        status: "ok",
+        data: results[index],
+      })
+    );
+  }
+
+  const error = `The backend returned ${results.length} results for ${uploads.length} files, so results could not be matched`;
+  return [
+    ...uploads.map((upload) => missingDocument(upload, error)),
+    ...results.map((content, index) =>
+      unmatchedDocument(String(index), `Unmatched result ${index + 1}`, content)
+    ),
+  ];
+}
+
+function correlateById(
+  uploads: UploadedFile[],
+  results: ProcessedDocument[]
+): Document[] {
+  const resultsById = new Map(
+    results.map((result) => [result.document_id, result])
+  );
+  const uploadIds = new Set(uploads.map((upload) => upload.documentId));
+
+  return [
+    ...uploads.map((upload) => {
+      const result = resultsById.get(upload.documentId);
+      return result
+        ? toDocument(upload, result)
+        : missingDocument(
+            upload,
+            "The backend returned no result for this file"
+          );
+    }),
+    ...results
+      .filter((result) => !uploadIds.has(result.document_id))
+      .map((result) =>
+        unmatchedDocument(
+          result.document_id,
+          `Unknown document ${result.document_id}`,
+          result.data ?? ""
+        )
+      ),
+  ];
+}
+
+function documentsFromResponse(
+  uploads: UploadedFile[],
+  payload: unknown
+): Document[] {
+  const result = parseResponse(
+    processDocsResponseSchema,
+    payload,
+    "process_docs"
+  );
+
+  return result.data.every((item) => typeof item === "string")
+    ? correlateByPosition(uploads, result.data as string[])
+    : correlateById(uploads, result.data as ProcessedDocument[]);
+}
+
+export async function processDocuments(
+  uploads: UploadedFile[],
+  options?: ProcessingOptions
+): Promise<Document[]> {
+  const payload = await postJson<unknown>(
+    "/process-docs",
+    {
+      list_of_doc: uploads.map((upload) => upload.storedName),
+      documents: uploads.map((upload) => ({
+        document_id: upload.documentId,
+        filename: upload.storedName,
+      })),
+    },
+    "Processing failed",
+    options,
+    { uploads }
+  );
+
+  return documentsFromResponse(uploads, payload);
+}
+
+export async function processKyc(
+  request: KYCRequest,
+  options?: ProcessingOptions & { extractionJobId?: string }
+): Promise<KYCResult> {
+  const payload = await postJson<unknown>(
+    "/process-kyc",
+    request,
+    "KYC Processing failed",
+    options,
+    { extraction_job_id: options?.extractionJobId }
+  );
+  return parseResponse(kycResultSchema, payload, "process_kyc");
+}
+
+// Rebuilds a session from a job ID alone. A KYC job links back to the
+// extraction job it was run on, so either ID restores the full view.
+export async function resumeSession(
+  jobId: string,
+  options: ProcessingOptions = {}
+): Promise<ResumedSession> {
+  const job = await waitForJob(jobId, options);
+
+  if (job.kind === "process_kyc") {
+    const extractionJobId = job.metadata?.extraction_job_id;
+    if (!extractionJobId) {
+      throw new KycApiError(
+        `KYC job ${jobId} is not linked to a document extraction job`,
+        422
+      );
+    }
+
+    const extraction = await resumeSession(extractionJobId, options);
+    return {
+      ...extraction,
+      kycJobId: job.job_id,
+      kycResult: parseResponse(kycResultSchema, job.result, "process_kyc"),
+    };
+  }
+
+  return {
+    extractionJobId: job.job_id,
+    documents: documentsFromResponse(job.metadata?.uploads ?? [], job.result),
+  };
+}
+
+// Server-backed case history, for deployments that keep cases centrally
+// instead of in the browser.
+export async function listCases(): Promise<CaseRecord[]> {
+  const response = await fetch(endpoint("/cases"), {
+    headers: { Accept: "application/json" },
+    cache: "no-store",
+  });
+  if (!response.ok) {
+    throw new KycApiError(
+      `Failed to load cases: ${await readErrorMessage(response)}`,
+      response.status
+    );
+  }
+  return parseResponse(
+    caseRecordSchema.array(),
+    await readJson(response, "Failed to load cases"),
+    "cases"
+  );
+}
+
+export async function getCase(caseId: string): Promise<CaseRecord | null> {
+  const response = await fetch(
+    endpoint(`/cases/${encodeURIComponent(caseId)}`),
+    {
+      headers: { Accept: "application/json" },
+      cache: "no-store",
+    }
+  );
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new KycApiError(
+      `Failed to load case ${caseId}: ${await readErrorMessage(response)}`,
+      response.status
+    );
+  }
+  return parseResponse(
+    caseRecordSchema,
+    await readJson(response, `Failed to load case ${caseId}`),
+    "case"
+  );
+}
+
+export async function saveCase(record: CaseRecord): Promise<void> {
+  const response = await fetch(
+    endpoint(`/cases/${encodeURIComponent(record.id)}`),
+    {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(record),
+    }
+  );
+  if (!response.ok) {
+    throw new KycApiError(
+      `Failed to save case ${record.id}: ${await readErrorMessage(response)}`,
+      response.status
+    );
+  }
+}
+
+export async function deleteCase(caseId: string): Promise<void> {
+  const response = await fetch(
+    endpoint(`/cases/${encodeURIComponent(caseId)}`),
+    { method: "DELETE" }
+  );
+  if (!response.ok && response.status !== 404) {
+    throw new KycApiError(
+      `Failed to delete case ${caseId}: ${await readErrorMessage(response)}`,
+      response.status
+    );
+  }
+}
+
+export async function submitDecision(
+  caseId: string,
+  decision: ReviewDecision
+): Promise<void> {
+  const response = await fetch(getDecisionEndpoint(), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ case_id: caseId, decision }),
+  });
+  if (!response.ok) {
+    throw new KycApiError(
+      `Failed to submit decision: ${await readErrorMessage(response)}`,
+      response.status
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_MASKING_RULES,
+  maskJson,
+  maskText,
+  piiCategory,
+} from "@/lib/pii-masking";
+import { validateDocumentIds } from "@/lib/id-validators";
+
+describe("piiCategory", () => {
+  it("recognises identifier keys beyond the listed aliases", () => {
+    expect(piiCategory("aadhaar_card_number")).toBe("aadhaar");
+    expect(piiCategory("Aadhar No")).toBe("aadhaar");
+    expect(piiCategory("pan_card_no")).toBe("pan");
+    expect(piiCategory("details.mobile")).toBe("phone");
+    expect(piiCategory("address.pincode")).toBe("address");
+    expect(piiCategory("name")).toBeNull();
+  });
+
+  it("agrees with the keys identifiers are validated under", () => {
+    const [validation] = validateDocumentIds({
+      aadhaar_card_number: "2345 6789 0124",
+    });
+    expect(validation.kind).toBe("aadhaar");
+    expect(piiCategory(validation.path!)).toBe(validation.kind);
+  });
+});
+
+describe("maskText", () => {
+  it("masks PII values wherever they appear", () => {
+    expect(
+      maskText(
+        "UID 2345 6789 0124, PAN ABCPE1234F, call +91 9876543210 or mail asha@example.com",
+        DEFAULT_MASKING_RULES
+      )
+    ).toBe(
+      "UID XXXXXXXX0124, PAN XXXXXX234F, call XXXXXXXXX3210 or mail a•••@example.com"
+    );
+  });
+
+  it("leaves text without PII alone", () => {
+    expect(maskText("Issued 03/04/2020 at Pune", DEFAULT_MASKING_RULES)).toBe(
+      "Issued 03/04/2020 at Pune"
+    );
+  });
+});
+
+describe("maskJson", () => {
+  it("masks an unparsed document's raw text", () => {
+    expect(
+      maskJson(
+        { raw_data: "Aadhaar: 2345 6789 0124\nName: Asha Rao" },
+        "",
+        DEFAULT_MASKING_RULES
+      )
+    ).toEqual({ raw_data: "Aadhaar: XXXXXXXX0124\nName: Asha Rao" });
+  });
+
+  it("masks leaves by key and by value", () => {
+    expect(
+      maskJson(
+        {
+          aadhaar_card_number: 234567890124,
+          dob: "15/08/1985",
+          notes: ["reach at 9876543210"],
+          pages: 2,
+        },
+        "",
+        DEFAULT_MASKING_RULES
+      )
+    ).toEqual({
+      aadhaar_card_number: "XXXXXXXX0124",
+      dob: "XX/XX/1985",
+      notes: ["reach at XXXXXX3210"],
+      pages: 2,
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { audit } from "@/lib/audit-log";
+import { joinPath, normalizeKey, splitPath } from "@/lib/document-data";
+import { idKindForKey } from "@/lib/id-validators";
+
+export const PII_CATEGORIES = [
+  "aadhaar",
+  "pan",
+  "passport",
+  "epic",
+  "driving_licence",
+  "gstin",
+  "account_number",
+  "dob",
+  "address",
+  "phone",
+  "email",
+] as const;
+
+export type PiiCategory = (typeof PII_CATEGORIES)[number];
+
+export const MASK_STRATEGIES = [
+  "none",
+  "last4",
+  "year_only",
+  "email",
+  "redact",
+] as const;
+
+export type MaskStrategy = (typeof MASK_STRATEGIES)[number];
+
+export type MaskingRules = Record<PiiCategory, MaskStrategy>;
+
+export const DEFAULT_MASKING_RULES: MaskingRules = {
+  aadhaar: "last4",
+  pan: "last4",
+  passport: "last4",
+  epic: "last4",
+  driving_licence: "last4",
+  gstin: "last4",
+  account_number: "last4",
+  dob: "year_only",
+  address: "redact",
+  phone: "last4",
+  email: "email",
+};
+
+// How long a reveal lasts before values are masked again.
+export const PII_REVEAL_MS = 30_000;
+
+// Identifiers are recognised by the same keys `validateDocumentIds` checks;
+// these are the other categories.
+const CATEGORY_ALIASES: Partial<Record<PiiCategory, string[]>> = {
+  account_number: ["account_number", "account_no", "acc_no"],
+  dob: ["dob", "date_of_birth", "birth_date", "year_of_birth", "yob"],
+  phone: ["phone", "phone_number", "mobile", "mobile_number", "contact_number"],
+  email: ["email", "email_address", "email_id"],
+};
+
+const CATEGORY_BY_KEY = new Map<string, PiiCategory>(
+  PII_CATEGORIES.flatMap((category) =>
+    (CATEGORY_ALIASES[category] ?? []).map(
+      (alias) => [normalizeKey(alias), category] as const
+    )
+  )
+);
+
+function isPiiCategory(value: string): value is PiiCategory {
+  return (PII_CATEGORIES as readonly string[]).includes(value);
+}
+
+function keyCategory(key: string): PiiCategory | null {
+  const kind = idKindForKey(key);
+  if (kind && isPiiCategory(kind)) {
+    return kind;
+  }
+  return CATEGORY_BY_KEY.get(key) ?? null;
+}
+
+// Values recognised wherever they appear, whatever their key: free text such
+// as an unparsed document's `raw_data` holds them under no key at all. Aadhaar
+// comes before phone so its 12 digits are not read as a phone number.
+const VALUE_PATTERNS: [PiiCategory, RegExp][] = [
+  ["aadhaar", /\b\d{4}[ -]?\d{4}[ -]?\d{4}\b/g],
+  ["pan", /\b[A-Z]{5}\d{4}[A-Z]\b/g],
+  ["phone", /(?:\+91[ -]?)?\b[6-9]\d{9}\b/g],
+  ["email", /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g],
+];
+
+let runtimeRules: Partial<MaskingRules> | null = null;
+
+// Lets the host page tighten or relax masking per category without a rebuild.
+export function setMaskingRules(rules: Partial<MaskingRules> | null) {
+  runtimeRules = rules;
+}
+
+// Defaults, overridden by `window.__KYC_CONFIG__.masking`, then by
+// `setMaskingRules()`.
+export function getMaskingRules(): MaskingRules {
+  const configured =
+    typeof window !== "undefined" ? window.__KYC_CONFIG__?.masking : undefined;
+  return { ...DEFAULT_MASKING_RULES, ...configured, ...runtimeRules };
+}
+
+// Classifies a dotted data path by its last key; anything else under an
+// address object (e.g. "address.pincode") counts as address.
+export function piiCategory(path: string): PiiCategory | null {
+  const segments = splitPath(path).map(normalizeKey);
+  const category = keyCategory(segments[segments.length - 1]);
+  if (category) {
+    return category;
+  }
+  return segments.some((segment) => segment.includes("address"))
+    ? "address"
+    : null;
+}
+
+export function maskValue(strategy: MaskStrategy, value: string): string {
+  switch (strategy) {
+    case "none":
+      return value;
+    case "last4": {
+      const compact = value.replace(/\s+/g, "");
+      return compact.length > 4
+        ? `${"X".repeat(compact.length - 4)}${compact.slice(-4)}`
+        : "X".repeat(compact.length);
+    }
+    case "year_only": {
+      const year = value.match(/\b(19|20)\d{2}\b/);
+      return year ? `XX/XX/${year[0]}` : "XX/XX/XXXX";
+    }
+    case "email": {
+      const [user, domain] = value.split("@");
+      return domain ? `${user.slice(0, 1)}•••@${domain}` : "•••";
+    }
+    case "redact":
+      return "••••••";
+  }
+}
+
+// Masks every Aadhaar number, PAN, phone number and email address in the text.
+export function maskText(
+  text: string,
+  rules: MaskingRules = getMaskingRules()
+): string {
+  return VALUE_PATTERNS.reduce(
+    (masked, [category, pattern]) =>
+      masked.replace(pattern, (match) => maskValue(rules[category], match)),
+    text
+  );
+}
+
+// Masks a single leaf whole if its path is classified as PII, and any PII
+// values within it otherwise.
+export function maskField(
+  path: string,
+  value: string,
+  rules: MaskingRules = getMaskingRules()
+): string {
+  const category = piiCategory(path);
+  return category ? maskValue(rules[category], value) : maskText(value, rules);
+}
+
+// Returns a copy of any JSON value with every PII leaf masked; used for the
+// raw JSON views, clipboard copies and exports.
+export function maskJson(
+  value: unknown,
+  path: string = "",
+  rules: MaskingRules = getMaskingRules()
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => maskJson(item, path, rules));
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [
+        key,
+        maskJson(
+          child,
+          path ? `${path}.${joinPath([key])}` : joinPath([key]),
+          rules
+        ),
+      ])
+    );
+  }
+  if (typeof value === "string" && !path) {
+    return maskText(value, rules);
+  }
+  if (value === null || value === undefined || !path) {
+    return value;
+  }
+  return typeof value === "string" || piiCategory(path)
+    ? maskField(path, String(value), rules)
+    : value;
+}
+
+export interface RevealLogEntry {
+  scope: string;
+  revealedAt: string;
+  expiresAt: string;
+}
+
+// Reveals go to the audit log, attributed to the current audit actor.
+export function recordReveal(scope: string, now: Date = new Date()) {
+  const entry = {
+    scope,
+    revealedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + PII_REVEAL_MS).toISOString(),
+  };
+  audit("pii_reveal", { scope, expiresAt: entry.expiresAt });
+  return entry;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { runPreCheck, severityBand } from "@/lib/pre-check";
+import { DEFAULT_RISK_BANDS, type RiskBand } from "@/lib/risk-policy";
+import type { Document } from "@/lib/schemas";
+
+const customBands: RiskBand[] = [
+  { id: "ok", label: "Clear", minScore: 0, colour: "green", action: "Accept" },
+  {
+    id: "watch",
+    label: "Watch",
+    minScore: 30,
+    colour: "yellow",
+    action: "Check",
+  },
+  {
+    id: "elevated",
+    label: "Elevated",
+    minScore: 50,
+    colour: "orange",
+    action: "Refer",
+  },
+  {
+    id: "severe",
+    label: "Severe",
+    minScore: 70,
+    colour: "red",
+    action: "Decline",
+  },
+];
+
+const pan: Document = {
+  id: "doc-1",
+  filename: "pan.jpg",
+  status: "processed",
+  type: "pan",
+  data: { name: "Asha Rao", pan_number: "ABCPE1234F" },
+};
+
+describe("severityBand", () => {
+  it("maps outcomes to the lowest, next-to-highest and highest band", () => {
+    expect(severityBand("pass", customBands).id).toBe("ok");
+    expect(severityBand("warn", customBands).id).toBe("elevated");
+    expect(severityBand("fail", customBands).id).toBe("severe");
+  });
+
+  it("uses the defaults' Low, Medium and High", () => {
+    expect(
+      (["pass", "warn", "fail"] as const).map(
+        (severity) => severityBand(severity, DEFAULT_RISK_BANDS).label
+      )
+    ).toEqual(["Low", "Medium", "High"]);
+  });
+
+  it("copes with policies of one or two bands", () => {
+    const [low, high] = DEFAULT_RISK_BANDS.filter(
+      (band) => band.id !== "medium"
+    );
+    expect(severityBand("warn", [low, high])).toBe(low);
+    expect(severityBand("fail", [low])).toBe(low);
+  });
+});
+
+describe("runPreCheck", () => {
+  it("names the band of a failure and recommends a review, not a rejection", () => {
+    const summary = runPreCheck([], new Date(), customBands);
+    expect(summary.identityVerified).toBe(false);
+    expect(summary.riskScore).toBe("Severe");
+    expect(summary.recommendedAction).toBe("Refer");
+  });
+
+  it("uses the default labels and actions without a policy", () => {
+    const summary = runPreCheck([pan], new Date(), DEFAULT_RISK_BANDS);
+    expect(summary.riskScore).toBe("High");
+    expect(summary.recommendedAction).toBe("Review");
+  });
+});
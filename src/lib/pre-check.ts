@@ -0,0 +1,265 @@
+import { checkConsistency, CONSISTENCY_FIELD_LABELS } from "@/lib/consistency";
+import { findEntry, flattenDocumentData, parseDate } from "@/lib/document-data";
+import {
+  DOCUMENT_TYPES,
+  getDocumentType,
+  resolveFields,
+  type DocumentTypeId,
+} from "@/lib/document-types";
+import {
+  ID_VALIDATORS,
+  validateDocumentIds,
+  type IdKind,
+} from "@/lib/id-validators";
+import { getRiskBands, type RiskBand } from "@/lib/risk-policy";
+import type { Document, VerificationSummary } from "@/lib/schemas";
+
+export type RuleSeverity = "pass" | "warn" | "fail";
+
+export interface PreCheckRule {
+  id: string;
+  label: string;
+  severity: RuleSeverity;
+  detail: string;
+  documentId?: string;
+}
+
+// A verification summary computed in the browser from the extracted data. It
+// keeps the backend's summary fields so it can be sent to `/process_kyc`, and
+// lists every rule that was evaluated.
+export interface PreCheckSummary extends VerificationSummary {
+  source: "client_pre_check";
+  rules: PreCheckRule[];
+}
+
+interface RequiredDocument {
+  id: string;
+  label: string;
+  types: DocumentTypeId[];
+}
+
+const REQUIRED_DOCUMENTS: RequiredDocument[] = [
+  {
+    id: "identity_proof",
+    label: "Proof of identity",
+    types: ["pan", "aadhaar", "passport", "voter_id", "driving_licence"],
+  },
+  {
+    id: "address_proof",
+    label: "Proof of address",
+    types: [
+      "aadhaar",
+      "passport",
+      "voter_id",
+      "driving_licence",
+      "utility_bill",
+      "bank_statement",
+    ],
+  },
+];
+
+// The identifier each document type must carry.
+const EXPECTED_IDS: Partial<Record<DocumentTypeId, IdKind>> = {
+  aadhaar: "aadhaar",
+  pan: "pan",
+  passport: "passport",
+  voter_id: "epic",
+  driving_licence: "driving_licence",
+  bank_statement: "ifsc",
+};
+
+const EXPIRY_WARNING_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function requiredDocumentRules(documents: Document[]): PreCheckRule[] {
+  return REQUIRED_DOCUMENTS.map((requirement) => {
+    const match = documents.find((doc) =>
+      requirement.types.includes(getDocumentType(doc.type).id)
+    );
+    return {
+      id: `required.${requirement.id}`,
+      label: requirement.label,
+      severity: match ? "pass" : "fail",
+      detail: match
+        ? `${getDocumentType(match.type).label} (${match.filename})`
+        : `Missing. Accepted: ${requirement.types
+            .map((type) => DOCUMENT_TYPES[type].label)
+            .join(", ")}`,
+    };
+  });
+}
+
+function parseRule(doc: Document): PreCheckRule {
+  const rule = {
+    id: "parsed",
+    label: "Fields parsed",
+    documentId: doc.id,
+  };
+
+  if (doc.status !== "processed") {
+    return {
+      ...rule,
+      severity: "fail",
+      detail: `${doc.filename}: ${doc.error ?? doc.status}`,
+    };
+  }
+  if (doc.unparsed) {
+    return {
+      ...rule,
+      severity: "fail",
+      detail: `${doc.filename}: the extraction output could not be read`,
+    };
+  }
+  if (getDocumentType(doc.type).id === "unknown") {
+    return {
+      ...rule,
+      severity: "warn",
+      detail: `${doc.filename}: document type not recognised`,
+    };
+  }
+  if (doc.repairs) {
+    return {
+      ...rule,
+      severity: "warn",
+      detail: `${doc.filename}: the extraction output needed repairs`,
+    };
+  }
+  return { ...rule, severity: "pass", detail: doc.filename };
+}
+
+function idRules(doc: Document): PreCheckRule[] {
+  const validations = validateDocumentIds(doc.data);
+  const rules: PreCheckRule[] = validations.map((validation) => ({
+    id: `id.${validation.kind}`,
+    label: ID_VALIDATORS[validation.kind].label,
+    severity: validation.valid ? "pass" : "fail",
+    detail: `${doc.filename}: ${validation.detail}`,
+    documentId: doc.id,
+  }));
+
+  const expected = EXPECTED_IDS[getDocumentType(doc.type).id];
+  if (expected && !validations.some((v) => v.kind === expected)) {
+    const { label, aliases } = ID_VALIDATORS[expected];
+    const present = findEntry(flattenDocumentData(doc.data), aliases);
+    rules.push({
+      id: `id.${expected}`,
+      label,
+      severity: present ? "warn" : "fail",
+      detail: present
+        ? `${doc.filename}: masked, cannot be verified`
+        : `${doc.filename}: not found`,
+      documentId: doc.id,
+    });
+  }
+
+  return rules;
+}
+
+function expiryRule(doc: Document, now: Date): PreCheckRule | null {
+  const field = resolveFields(getDocumentType(doc.type), doc.data).find(
+    (candidate) => candidate.spec.id === "expiry_date"
+  );
+  if (!field) {
+    return null;
+  }
+
+  const rule = { id: "expiry", label: "Document validity", documentId: doc.id };
+  const parsed = parseDate(field.value);
+  if (!parsed) {
+    return {
+      ...rule,
+      severity: "warn",
+      detail: `${doc.filename}: expiry date "${field.value}" not understood`,
+    };
+  }
+
+  // The first moment the document is no longer valid. A bare year is valid
+  // until the end of it.
+  const expiry =
+    parsed.month !== undefined && parsed.day !== undefined
+      ? new Date(parsed.year, parsed.month - 1, parsed.day + 1)
+      : new Date(parsed.year + 1, 0, 1);
+  const daysLeft = Math.floor((expiry.getTime() - now.getTime()) / DAY_MS);
+
+  if (daysLeft < 0) {
+    return {
+      ...rule,
+      severity: "fail",
+      detail: `${doc.filename}: expired on ${field.value}`,
+    };
+  }
+  if (daysLeft <= EXPIRY_WARNING_DAYS) {
+    return {
+      ...rule,
+      severity: "warn",
+      detail: `${doc.filename}: expires in ${daysLeft} days`,
+    };
+  }
+  return {
+    ...rule,
+    severity: "pass",
+    detail: `${doc.filename}: valid until ${field.value}`,
+  };
+}
+
+function consistencyRules(documents: Document[]): PreCheckRule[] {
+  return checkConsistency(documents)
+    .comparisons.filter((comparison) => comparison.outcome !== "match")
+    .map((comparison) => ({
+      id: `consistency.${comparison.field}`,
+      label: `${CONSISTENCY_FIELD_LABELS[comparison.field]} consistency`,
+      severity: comparison.outcome === "mismatch" ? "fail" : "warn",
+      detail: `${comparison.left.filename} and ${comparison.right.filename} ${
+        comparison.outcome === "mismatch" ? "disagree" : "only partly agree"
+      }`,
+    }));
+}
+
+// The risk band each rule outcome puts the documents in: the lowest band when
+// every rule passes, the highest on a failure, and the band below the highest
+// on a warning.
+export function severityBand(
+  severity: RuleSeverity,
+  bands: RiskBand[] = getRiskBands()
+): RiskBand {
+  const index = {
+    pass: 0,
+    warn: Math.max(bands.length - 2, 0),
+    fail: bands.length - 1,
+  }[severity];
+  return bands[index];
+}
+
+// Runs every client-side rule over the extracted documents. The risk level is
+// the label of the band the worst outcome falls in. Failures make the
+// pre-check recommend what a warning does; it never rejects on its own.
+export function runPreCheck(
+  documents: Document[],
+  now: Date = new Date(),
+  bands: RiskBand[] = getRiskBands()
+): PreCheckSummary {
+  const processed = documents.filter((doc) => doc.status === "processed");
+  const rules: PreCheckRule[] = [
+    ...requiredDocumentRules(processed),
+    ...documents.map(parseRule),
+    ...processed.flatMap(idRules),
+    ...processed
+      .map((doc) => expiryRule(doc, now))
+      .filter((rule): rule is PreCheckRule => rule !== null),
+    ...consistencyRules(processed),
+  ];
+
+  const failures = rules.filter((rule) => rule.severity === "fail").length;
+  const warnings = rules.filter((rule) => rule.severity === "warn").length;
+  const worst: RuleSeverity =
+    failures > 0 ? "fail" : warnings > 0 ? "warn" : "pass";
+
+  return {
+    source: "client_pre_check",
+    identityVerified: failures === 0,
+    riskScore: severityBand(worst, bands).label,
+    recommendedAction: severityBand(worst === "fail" ? "warn" : worst, bands)
+      .action,
+    rules,
+  };
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { readProgressStream } from "@/lib/progress-stream";
+
+function ndjsonResponse(lines: string[], onCancel: () => void): Response {
+  const encoder = new TextEncoder();
+  // Never closes by itself, like a backend that keeps the connection open.
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      lines.forEach((line) => controller.enqueue(encoder.encode(`${line}\n`)));
+    },
+    cancel: onCancel,
+  });
+  return new Response(body, {
+    headers: { "content-type": "application/x-ndjson" },
+  });
+}
+
+describe("readProgressStream", () => {
+  it("cancels the body once the result arrives", async () => {
+    let cancelled = false;
+    const response = ndjsonResponse(
+      [
+        JSON.stringify({
+          type: "progress",
+          stage: "ocr",
+          current: 1,
+          total: 2,
+        }),
+        JSON.stringify({ type: "result", result: { ok: true } }),
+      ],
+      () => {
+        cancelled = true;
+      }
+    );
+
+    await expect(readProgressStream(response)).resolves.toEqual({ ok: true });
+    expect(cancelled).toBe(true);
+    expect(response.body?.locked).toBe(false);
+  });
+
+  it("cancels the body when the stream reports an error", async () => {
+    let cancelled = false;
+    const response = ndjsonResponse(
+      [JSON.stringify({ type: "error", message: "OCR failed", status: 502 })],
+      () => {
+        cancelled = true;
+      }
+    );
+
+    await expect(readProgressStream(response)).rejects.toThrow("OCR failed");
+    expect(cancelled).toBe(true);
+  });
+});
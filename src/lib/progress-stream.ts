@@ -0,0 +1,189 @@
+import {
+  parseResponse,
+  progressEventSchema,
+  type ProgressEvent,
+  type ProgressUpdate,
+} from "@/lib/schemas";
+
+export const STREAM_ACCEPT_HEADER =
+  "text/event-stream, application/x-ndjson;q=0.9, application/json;q=0.8";
+
+const STAGE_LABELS: Record<string, string> = {
+  upload: "Receiving documents",
+  ocr: "OCR page",
+  extract: "Extracting fields",
+  fraud_agent: "Fraud agent running",
+  risk_agent: "Risk agent running",
+  compliance_agent: "Compliance agent running",
+  summary: "Compiling results",
+};
+
+export class StreamError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "StreamError";
+    this.status = status;
+  }
+}
+
+export function isStreamingResponse(response: Response): boolean {
+  const contentType = response.headers.get("content-type") || "";
+  return (
+    contentType.includes("text/event-stream") ||
+    contentType.includes("application/x-ndjson")
+  );
+}
+
+export function progressPercent(update: ProgressUpdate): number | null {
+  if (update.percent !== undefined) {
+    return update.percent;
+  }
+  if (update.current !== undefined && update.total) {
+    return Math.min(100, (update.current / update.total) * 100);
+  }
+  return null;
+}
+
+// e.g. "OCR page 3/7" or "Risk agent running".
+export function formatProgress(update: ProgressUpdate): string {
+  if (update.message) {
+    return update.message;
+  }
+
+  const label =
+    STAGE_LABELS[update.stage] ||
+    update.stage
+      .replace(/[_-]+/g, " ")
+      .replace(/^./, (str) => str.toUpperCase());
+
+  return update.current !== undefined && update.total !== undefined
+    ? `${label} ${update.current}/${update.total}`
+    : label;
+}
+
+async function* readLines(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? "";
+      yield* lines;
+
+      if (done) {
+        if (buffer) {
+          yield buffer;
+        }
+        return;
+      }
+    }
+  } finally {
+    // Reading stops at the `result` or `error` event, which need not be the
+    // end of the body; cancelling closes the connection instead of leaving it
+    // open with the stream locked.
+    await reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+  }
+}
+
+// Yields raw event payloads from either SSE (`event:`/`data:` blocks separated
+// by blank lines) or NDJSON (one JSON object per line).
+async function* readEvents(
+  body: ReadableStream<Uint8Array>,
+  isSse: boolean
+): AsyncGenerator<{ name: string; data: string }> {
+  let name = "";
+  let dataLines: string[] = [];
+
+  for await (const line of readLines(body)) {
+    if (!isSse) {
+      if (line.trim()) {
+        yield { name: "", data: line };
+      }
+      continue;
+    }
+
+    if (line === "") {
+      if (dataLines.length > 0) {
+        yield { name, data: dataLines.join("\n") };
+      }
+      name = "";
+      dataLines = [];
+      continue;
+    }
+
+    if (line.startsWith(":")) {
+      continue;
+    }
+
+    const separator = line.indexOf(":");
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value =
+      separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+
+    if (field === "event") {
+      name = value;
+    } else if (field === "data") {
+      dataLines.push(value);
+    }
+  }
+
+  if (dataLines.length > 0) {
+    yield { name, data: dataLines.join("\n") };
+  }
+}
+
+// Consumes a streaming processing response, reporting each progress event and
+// resolving with the payload of the final `result` event.
+export async function readProgressStream(
+  response: Response,
+  onProgress?: (update: ProgressUpdate) => void
+): Promise<unknown> {
+  if (!response.body) {
+    throw new StreamError("Progress stream has no body", response.status);
+  }
+
+  const isSse = (response.headers.get("content-type") || "").includes(
+    "text/event-stream"
+  );
+
+  for await (const { name, data } of readEvents(response.body, isSse)) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(data);
+    } catch {
+      console.error("Ignoring malformed progress event:", data);
+      continue;
+    }
+
+    if (name && typeof raw === "object" && raw !== null && !("type" in raw)) {
+      raw = { ...raw, type: name };
+    }
+
+    const event: ProgressEvent = parseResponse(
+      progressEventSchema,
+      raw,
+      "progress stream"
+    );
+
+    if (event.type === "progress") {
+      onProgress?.(event);
+    } else if (event.type === "error") {
+      throw new StreamError(event.message, event.status ?? 500);
+    } else {
+      return event.result;
+    }
+  }
+
+  throw new StreamError(
+    "Progress stream ended without a result",
+    response.status
+  );
+}
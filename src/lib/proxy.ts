@@ -0,0 +1,62 @@
+import { ROLE_HEADER, USER_HEADER } from "@/lib/auth";
+import { getUpstreamUrl } from "@/lib/config";
+
+// The identity headers are set by the middleware from the session cookie.
+const FORWARDED_REQUEST_HEADERS = [
+  "content-type",
+  "content-length",
+  "accept",
+  "prefer",
+  USER_HEADER,
+  ROLE_HEADER,
+];
+const FORWARDED_RESPONSE_HEADERS = [
+  "content-type",
+  "cache-control",
+  "x-accel-buffering",
+];
+
+function pickHeaders(source: Headers, names: string[]): Headers {
+  const headers = new Headers();
+  for (const name of names) {
+    const value = source.get(name);
+    if (value) {
+      headers.set(name, value);
+    }
+  }
+  return headers;
+}
+
+// Forwards a same-origin API request to the KYC backend. The request body is
+// streamed through untouched (multipart uploads included), and the upstream
+// status code and body are passed back unchanged so the client sees the
+// backend's own error messages.
+export async function proxyToUpstream(
+  request: Request,
+  upstreamPath: string
+): Promise<Response> {
+  let upstream: Response;
+  try {
+    upstream = await fetch(`${getUpstreamUrl()}${upstreamPath}`, {
+      method: request.method,
+      headers: pickHeaders(request.headers, FORWARDED_REQUEST_HEADERS),
+      body: request.body,
+      cache: "no-store",
+      signal: request.signal,
+      // Required by Node's fetch when the body is a stream.
+      duplex: "half",
+    } as RequestInit & { duplex: "half" });
+  } catch (err) {
+    console.error(`Proxy error for ${upstreamPath}:`, err);
+    return Response.json(
+      { message: "KYC backend is unreachable" },
+      { status: 502 }
+    );
+  }
+
+  return new Response(upstream.body, {
+    status: upstream.status,
+    statusText: upstream.statusText,
+    headers: pickHeaders(upstream.headers, FORWARDED_RESPONSE_HEADERS),
+  });
+}
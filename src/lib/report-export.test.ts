@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { buildReportCsv, pdfText } from "@/lib/report-export";
+import type { KYCResult } from "@/lib/schemas";
+
+function result(documentData: KYCResult["kyc_data"]["documentData"]) {
+  return {
+    result: {
+      message: "KYC verification successful",
+      kyc_data: {
+        documentData,
+        verificationSummary: {
+          identityVerified: true,
+          riskScore: "Low",
+          recommendedAction: "Approve",
+        },
+      },
+    },
+    generatedAt: new Date("2025-01-02T03:04:05Z"),
+  };
+}
+
+function csvRecord(csv: string): Record<string, string> {
+  const [header, record] = csv.split("\r\n");
+  const split = (line: string) =>
+    line
+      .match(/("([^"]|"")*"|[^,]*)(,|$)/g)!
+      .map((cell) => cell.replace(/,$/, ""));
+  const keys = split(header);
+  const values = split(record);
+  return Object.fromEntries(keys.map((key, i) => [key, values[i]]));
+}
+
+describe("buildReportCsv", () => {
+  it("quotes cells a spreadsheet would run as formulas", () => {
+    const record = csvRecord(
+      buildReportCsv(
+        result([
+          {
+            filename: "bill.pdf",
+            type: "utility_bill",
+            data: {
+              biller: '=HYPERLINK("http://evil.example","x")',
+              plus: "+1+1",
+              minus: "-2",
+              at: "@SUM(A1)",
+              tab: "\tnote",
+              safe: "Pune",
+            },
+          },
+        ])
+      )
+    );
+
+    expect(record["documents.0.data.biller"]).toBe(
+      '"\'=HYPERLINK(""http://evil.example"",""x"")"'
+    );
+    expect(record["documents.0.data.plus"]).toBe("'+1+1");
+    expect(record["documents.0.data.minus"]).toBe("'-2");
+    expect(record["documents.0.data.at"]).toBe("'@SUM(A1)");
+    expect(record["documents.0.data.tab"]).toBe("'\tnote");
+    expect(record["documents.0.data.safe"]).toBe("Pune");
+  });
+});
+
+describe("pdfText", () => {
+  it("spells out the rupee sign and drops accents", () => {
+    expect(pdfText("₹1,500 – Café")).toBe("Rs.1,500 - Cafe");
+  });
+
+  it("transliterates Devanagari", () => {
+    expect(pdfText("रमेश शर्मा")).toBe("Ramesh Sharma");
+    expect(pdfText("संजय, पुणे ४११००१")).toBe("Sanjay, Pune 411001");
+  });
+
+  it("replaces anything else the PDF font cannot show", () => {
+    expect(pdfText("名前 Asha")).toBe("?? Asha");
+  });
+});
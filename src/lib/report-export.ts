@@ -0,0 +1,389 @@
+import {
+  analysisSections,
+  highestRiskSection,
+  type AnalysisSection,
+} from "@/lib/analysis-sections";
+import { flattenDocumentData, entryText, pathLabel } from "@/lib/document-data";
+import { getDocumentType, detectDocumentType } from "@/lib/document-types";
+import { maskJson } from "@/lib/pii-masking";
+import type { RiskBand } from "@/lib/risk-policy";
+import type { DocumentData, KYCResult, KycDocument } from "@/lib/schemas";
+
+export const REPORT_FORMATS = ["pdf", "json", "csv"] as const;
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export interface ReportInput {
+  result: KYCResult;
+  generatedAt: Date;
+  completedAt?: Date | null;
+  caseId?: string | null;
+}
+
+// Machine-readable export. Document data is masked the same way as on screen.
+export interface ReportBundle {
+  report_version: 1;
+  case_id: string | null;
+  generated_at: string;
+  completed_at: string | null;
+  message: string;
+  verification_summary: KYCResult["kyc_data"]["verificationSummary"];
+  fraud_detection: KYCResult["kyc_data"]["FraudDetection"] | null;
+  risk_assessment: KYCResult["kyc_data"]["RiskAssessment"] | null;
+  compliance_check: KYCResult["kyc_data"]["ComplianceCheck"] | null;
+  // Every analysis block, including ones from agents without a field above.
+  analysis_sections: Omit<AnalysisSection, "accent">[];
+  // The risk policy's band for the highest score, as shown on screen.
+  policy_risk: { section: string; score: number; band: RiskBand } | null;
+  documents: {
+    document_id: string | null;
+    filename: string;
+    type: string;
+    data: DocumentData;
+  }[];
+}
+
+function reportDocuments(result: KYCResult): KycDocument[] {
+  const { documentData } = result.kyc_data;
+  return Array.isArray(documentData) ? documentData : [documentData];
+}
+
+export function buildReportBundle(input: ReportInput): ReportBundle {
+  const { kyc_data } = input.result;
+  const sections = analysisSections(input.result);
+  const highest = highestRiskSection(sections);
+  return {
+    report_version: 1,
+    case_id: input.caseId ?? null,
+    generated_at: input.generatedAt.toISOString(),
+    completed_at: input.completedAt?.toISOString() ?? null,
+    message: input.result.message,
+    verification_summary: kyc_data.verificationSummary,
+    fraud_detection: kyc_data.FraudDetection ?? null,
+    risk_assessment: kyc_data.RiskAssessment ?? null,
+    compliance_check: kyc_data.ComplianceCheck ?? null,
+    analysis_sections: sections.map(({ accent, ...section }) => section),
+    policy_risk: highest?.score
+      ? {
+          section: highest.title,
+          score: highest.score.value,
+          band: highest.score.band,
+        }
+      : null,
+    documents: reportDocuments(input.result).map((doc) => ({
+      document_id: doc.document_id ?? null,
+      filename: doc.filename,
+      type: doc.type ?? detectDocumentType(doc.data),
+      data: maskJson(doc.data) as DocumentData,
+    })),
+  };
+}
+
+function flattenJson(value: unknown, prefix: string): [string, string][] {
+  if (Array.isArray(value)) {
+    return value.every((item) => typeof item !== "object" || item === null)
+      ? [[prefix, value.join("; ")]]
+      : value.flatMap((item, i) => flattenJson(item, `${prefix}.${i}`));
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.entries(value).flatMap(([key, child]) =>
+      flattenJson(child, prefix ? `${prefix}.${key}` : key)
+    );
+  }
+  return [[prefix, value === null || value === undefined ? "" : String(value)]];
+}
+
+// Spreadsheets run a cell starting with one of these as a formula, so such a
+// cell is prefixed with a quote and imported as text.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: string): string {
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One header row and one record row, with nested fields flattened to dotted
+// column names (e.g. "documents.0.data.name") for case-management import.
+export function buildReportCsv(input: ReportInput): string {
+  const columns = flattenJson(buildReportBundle(input), "");
+  return [
+    columns.map(([key]) => csvCell(key)).join(","),
+    columns.map(([, value]) => csvCell(value)).join(","),
+  ].join("\r\n");
+}
+
+const DEVANAGARI_VOWELS: Record<string, string> = {
+  अ: "a",
+  आ: "a",
+  इ: "i",
+  ई: "i",
+  उ: "u",
+  ऊ: "u",
+  ऋ: "ri",
+  ए: "e",
+  ऐ: "ai",
+  ओ: "o",
+  औ: "au",
+};
+
+// Vowel signs, which replace a consonant's inherent "a".
+const DEVANAGARI_SIGNS: Record<string, string> = {
+  "ा": "a",
+  "ि": "i",
+  "ी": "i",
+  "ु": "u",
+  "ू": "u",
+  "ृ": "ri",
+  "े": "e",
+  "ै": "ai",
+  "ो": "o",
+  "ौ": "au",
+  "्": "",
+};
+
+const DEVANAGARI_CONSONANTS: Record<string, string> = {
+  क: "k",
+  ख: "kh",
+  ग: "g",
+  घ: "gh",
+  ङ: "ng",
+  च: "ch",
+  छ: "chh",
+  ज: "j",
+  झ: "jh",
+  ञ: "ny",
+  ट: "t",
+  ठ: "th",
+  ड: "d",
+  ढ: "dh",
+  ण: "n",
+  त: "t",
+  थ: "th",
+  द: "d",
+  ध: "dh",
+  न: "n",
+  प: "p",
+  फ: "ph",
+  ब: "b",
+  भ: "bh",
+  म: "m",
+  य: "y",
+  र: "r",
+  ल: "l",
+  ळ: "l",
+  व: "v",
+  श: "sh",
+  ष: "sh",
+  स: "s",
+  ह: "h",
+};
+
+const DEVANAGARI_OTHER: Record<string, string> = {
+  "ं": "n",
+  "ँ": "n",
+  "ः": "h",
+  "़": "",
+  "।": ".",
+  "॥": ".",
+};
+
+const PUNCTUATION: Record<string, string> = {
+  "₹": "Rs.",
+  "‘": "'",
+  "’": "'",
+  "“": '"',
+  "”": '"',
+  "–": "-",
+  "—": "-",
+  "…": "...",
+};
+
+// Names and addresses are often extracted in Devanagari. `word` is a run of
+// Devanagari; a consonant in it keeps its inherent "a" unless a vowel sign or
+// virama follows, or it ends the word ("रमेश" → "Ramesh").
+function transliterateDevanagari(word: string): string {
+  const chars = [...word];
+  const latin = chars
+    .map((char, i) => {
+      const digit = char.charCodeAt(0) - 0x0966;
+      if (digit >= 0 && digit <= 9) {
+        return String(digit);
+      }
+      const consonant = DEVANAGARI_CONSONANTS[char];
+      if (consonant === undefined) {
+        return (
+          DEVANAGARI_VOWELS[char] ??
+          DEVANAGARI_SIGNS[char] ??
+          DEVANAGARI_OTHER[char] ??
+          char
+        );
+      }
+      const next = chars[i + 1] === "़" ? chars[i + 2] : chars[i + 1];
+      const wordEnds = next === undefined || next === "।" || next === "॥";
+      return wordEnds || next in DEVANAGARI_SIGNS ? consonant : `${consonant}a`;
+    })
+    .join("");
+  return latin.charAt(0).toUpperCase() + latin.slice(1);
+}
+
+// The PDF uses jsPDF's built-in Helvetica, which only covers Latin-1, rather
+// than an embedded Unicode font: jsPDF cannot shape Devanagari even with one,
+// and a font big enough would outweigh the rest of the bundle. Text is
+// transliterated instead; accents are dropped and anything else left outside
+// Latin-1 becomes "?".
+export function pdfText(text: string): string {
+  const words = text.replace(/[\u0900-\u097f]+/g, transliterateDevanagari);
+  return [...words]
+    .map((char) => PUNCTUATION[char] ?? char)
+    .join("")
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\u0000-\u00ff]/g, "?");
+}
+
+const PAGE_MARGIN = 15;
+const LINE_HEIGHT = 5;
+
+// Formatted, human-readable report. jsPDF is loaded on demand so it stays out
+// of the main bundle.
+export async function buildReportPdf(input: ReportInput): Promise<Blob> {
+  const { jsPDF } = await import("jspdf");
+  const pdf = new jsPDF({ unit: "mm", format: "a4" });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const textWidth = pageWidth - PAGE_MARGIN * 2;
+  const bundle = buildReportBundle(input);
+  let y = PAGE_MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - PAGE_MARGIN) {
+      pdf.addPage();
+      y = PAGE_MARGIN;
+    }
+  };
+
+  const heading = (text: string, size = 13) => {
+    ensureSpace(size);
+    y += 3;
+    pdf.setFont("helvetica", "bold").setFontSize(size);
+    pdf.text(pdfText(text), PAGE_MARGIN, y);
+    y += LINE_HEIGHT + 1;
+  };
+
+  const paragraph = (text: string) => {
+    pdf.setFont("helvetica", "normal").setFontSize(10);
+    for (const line of pdf.splitTextToSize(
+      pdfText(text),
+      textWidth
+    ) as string[]) {
+      ensureSpace(LINE_HEIGHT);
+      pdf.text(line, PAGE_MARGIN, y);
+      y += LINE_HEIGHT;
+    }
+  };
+
+  const row = (label: string, value: string) => {
+    const lines = pdf.splitTextToSize(
+      pdfText(value || "N/A"),
+      textWidth - 55
+    ) as string[];
+    ensureSpace(lines.length * LINE_HEIGHT);
+    pdf.setFont("helvetica", "bold").setFontSize(10);
+    pdf.text(pdfText(label), PAGE_MARGIN, y);
+    pdf.setFont("helvetica", "normal");
+    pdf.text(lines, PAGE_MARGIN + 55, y);
+    y += lines.length * LINE_HEIGHT;
+  };
+
+  heading("KYC Verification Report", 18);
+  row("Generated", bundle.generated_at);
+  row("Completed", bundle.completed_at ?? "Not recorded");
+  if (bundle.case_id) {
+    row("Case", bundle.case_id);
+  }
+
+  heading("Verification Overview");
+  const summary = bundle.verification_summary;
+  row("Identity Verified", summary.identityVerified ? "Yes" : "No");
+  row("Risk Score", summary.riskScore);
+  row("Recommended Action", summary.recommendedAction);
+  if (bundle.policy_risk) {
+    row("Policy Risk Band", bundle.policy_risk.band.label);
+    row("Policy Action", bundle.policy_risk.band.action);
+  }
+
+  for (const section of bundle.analysis_sections) {
+    heading(section.title);
+    if (section.verdict) {
+      row("Result", section.verdict);
+    }
+    if (section.score) {
+      row(
+        section.score.label,
+        `${section.score.value}/100 (${section.score.band.label})`
+      );
+    }
+    if (section.status) {
+      row(section.status.label, section.status.value);
+    }
+    if (section.analysis) {
+      paragraph(section.analysis);
+    }
+  }
+
+  heading("Document Details");
+  for (const doc of bundle.documents) {
+    heading(`${doc.filename} (${getDocumentType(doc.type).label})`, 11);
+    for (const entry of flattenDocumentData(doc.data)) {
+      row(pathLabel(entry.path), entryText(entry) ?? "");
+    }
+  }
+
+  const pages = pdf.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    pdf.setPage(page);
+    pdf.setFont("helvetica", "normal").setFontSize(8);
+    pdf.text(
+      `Page ${page} of ${pages}`,
+      pageWidth - PAGE_MARGIN,
+      pageHeight - PAGE_MARGIN / 2,
+      { align: "right" }
+    );
+  }
+
+  return pdf.output("blob");
+}
+
+const MIME_TYPES: Record<ReportFormat, string> = {
+  pdf: "application/pdf",
+  json: "application/json",
+  csv: "text/csv;charset=utf-8",
+};
+
+export async function buildReport(
+  format: ReportFormat,
+  input: ReportInput
+): Promise<Blob> {
+  if (format === "pdf") {
+    return buildReportPdf(input);
+  }
+  const content =
+    format === "json"
+      ? JSON.stringify(buildReportBundle(input), null, 2)
+      : buildReportCsv(input);
+  return new Blob([content], { type: MIME_TYPES[format] });
+}
+
+export function reportFilename(format: ReportFormat, input: ReportInput) {
+  const stamp = input.generatedAt.toISOString().replace(/[:.]/g, "-");
+  return `kyc-report-${input.caseId ?? stamp}.${format}`;
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
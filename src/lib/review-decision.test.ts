@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { decisionSubmissionError, isHighRisk } from "@/lib/review-decision";
+import { DEFAULT_RISK_BANDS, type RiskBand } from "@/lib/risk-policy";
+import type { KYCResult, ReviewDecision } from "@/lib/schemas";
+
+const customBands: RiskBand[] = [
+  { id: "ok", label: "Clear", minScore: 0, colour: "green", action: "Accept" },
+  {
+    id: "severe",
+    label: "Severe",
+    minScore: 60,
+    colour: "red",
+    action: "Decline",
+  },
+];
+
+function result(
+  riskScore: string,
+  recommendedAction: string,
+  score?: number
+): KYCResult {
+  return {
+    message: "KYC verification successful",
+    kyc_data: {
+      documentData: [],
+      verificationSummary: {
+        identityVerified: true,
+        riskScore,
+        recommendedAction,
+      },
+      ...(score !== undefined && {
+        RiskAssessment: {
+          RiskAnalysis: "",
+          RiskScore: score,
+          finalResponse: "SUCCESS",
+        },
+      }),
+    },
+  };
+}
+
+describe("isHighRisk", () => {
+  it("follows the summary's risk level", () => {
+    expect(isHighRisk(result("High", "Review"), DEFAULT_RISK_BANDS)).toBe(true);
+    expect(isHighRisk(result("Medium", "Review"), DEFAULT_RISK_BANDS)).toBe(
+      false
+    );
+    expect(isHighRisk(result("Severe", "Review"), customBands)).toBe(true);
+  });
+
+  it("falls back to the recommended action for unknown labels", () => {
+    expect(isHighRisk(result("Red", "Decline"), customBands)).toBe(true);
+    expect(isHighRisk(result("Red", "Accept"), customBands)).toBe(false);
+  });
+
+  it("flags a score in the highest band", () => {
+    expect(isHighRisk(result("Low", "Approve", 80), DEFAULT_RISK_BANDS)).toBe(
+      true
+    );
+    expect(isHighRisk(result("Clear", "Accept", 65), customBands)).toBe(true);
+    expect(isHighRisk(result("Clear", "Accept", 55), customBands)).toBe(false);
+  });
+});
+
+describe("decisionSubmissionError", () => {
+  const approval: ReviewDecision = {
+    action: "approve",
+    reasonCodes: ["DOCS_VERIFIED"],
+    notes: "",
+    reviewer: "asha",
+    decidedAt: "2025-01-01T00:00:00.000Z",
+    status: "pending_confirmation",
+    confirmedBy: null,
+    confirmedAt: null,
+  };
+  const confirmed: ReviewDecision = {
+    ...approval,
+    status: "final",
+    confirmedBy: "ravi",
+    confirmedAt: "2025-01-01T01:00:00.000Z",
+  };
+
+  it("lets a reviewer record their own decision", () => {
+    expect(
+      decisionSubmissionError(approval, { username: "asha", role: "reviewer" })
+    ).toBeNull();
+  });
+
+  it("needs the approve permission to approve", () => {
+    expect(
+      decisionSubmissionError(approval, { username: "asha", role: "agent" })
+    ).toMatch(/approvals/);
+    expect(
+      decisionSubmissionError(
+        { ...approval, action: "escalate", status: "final" },
+        { username: "asha", role: "agent" }
+      )
+    ).toBeNull();
+  });
+
+  it("rejects a decision recorded under someone else's name", () => {
+    expect(
+      decisionSubmissionError(approval, { username: "ravi", role: "reviewer" })
+    ).toMatch(/own name/);
+  });
+
+  it("lets a second reviewer confirm an approval", () => {
+    expect(
+      decisionSubmissionError(confirmed, { username: "ravi", role: "reviewer" })
+    ).toBeNull();
+    expect(
+      decisionSubmissionError(confirmed, {
+        username: "meera",
+        role: "reviewer",
+      })
+    ).toMatch(/own name/);
+  });
+
+  it("rejects a reviewer confirming their own approval", () => {
+    expect(
+      decisionSubmissionError(
+        { ...confirmed, confirmedBy: "Asha" },
+        { username: "asha", role: "reviewer" }
+      )
+    ).toMatch(/second reviewer/);
+  });
+});
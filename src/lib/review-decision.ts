@@ -0,0 +1,207 @@
+import { analysisSections } from "@/lib/analysis-sections";
+import { hasPermission, type SessionUser } from "@/lib/auth";
+import { getApiBaseUrl } from "@/lib/config";
+import {
+  getRiskBands,
+  isHighestBand,
+  summaryBand,
+  type RiskBand,
+} from "@/lib/risk-policy";
+import {
+  decisionActionSchema,
+  type DecisionAction,
+  type KYCResult,
+  type ReviewDecision,
+} from "@/lib/schemas";
+
+export const DECISION_ACTIONS = decisionActionSchema.options;
+
+export const DECISION_LABELS: Record<DecisionAction, string> = {
+  approve: "Approve",
+  reject: "Reject",
+  request_documents: "Request More Documents",
+  escalate: "Escalate",
+};
+
+export interface ReasonCode {
+  code: string;
+  label: string;
+}
+
+// At least one reason is mandatory for every decision, so the codes offered
+// depend on the action being recorded.
+export const REASON_CODES: Record<DecisionAction, ReasonCode[]> = {
+  approve: [
+    { code: "DOCS_VERIFIED", label: "Documents verified" },
+    { code: "IDENTITY_CONFIRMED", label: "Identity confirmed" },
+    { code: "RISK_ACCEPTABLE", label: "Risk within appetite" },
+    { code: "MANUAL_OVERRIDE", label: "Overrides the recommendation" },
+  ],
+  reject: [
+    { code: "SUSPECTED_FRAUD", label: "Suspected fraud or tampering" },
+    { code: "IDENTITY_MISMATCH", label: "Identity does not match" },
+    { code: "EXPIRED_DOCUMENT", label: "Expired document" },
+    { code: "SANCTIONS_HIT", label: "Sanctions or PEP match" },
+    { code: "NON_COMPLIANT", label: "Fails compliance requirements" },
+  ],
+  request_documents: [
+    { code: "MISSING_ADDRESS_PROOF", label: "Address proof missing" },
+    { code: "MISSING_IDENTITY_PROOF", label: "Identity proof missing" },
+    { code: "ILLEGIBLE_DOCUMENT", label: "Document illegible" },
+    { code: "INCONSISTENT_DETAILS", label: "Details inconsistent" },
+  ],
+  escalate: [
+    { code: "HIGH_RISK", label: "High risk profile" },
+    { code: "POSSIBLE_SANCTIONS", label: "Possible sanctions or PEP match" },
+    { code: "UNUSUAL_ACTIVITY", label: "Unusual circumstances" },
+    { code: "NEEDS_SPECIALIST", label: "Needs specialist review" },
+  ],
+};
+
+const DEFAULT_DECISION_PATH = "/decisions";
+
+let runtimeDecisionEndpoint: string | null = null;
+
+export function setDecisionEndpoint(url: string | null) {
+  runtimeDecisionEndpoint = url;
+}
+
+// Where decisions are submitted: explicit override,
+// `window.__KYC_CONFIG__.decisionEndpoint`, `NEXT_PUBLIC_KYC_DECISION_ENDPOINT`,
+// then `/decisions` on the API base URL.
+export function getDecisionEndpoint(): string {
+  return (
+    runtimeDecisionEndpoint ||
+    (typeof window !== "undefined" &&
+      window.__KYC_CONFIG__?.decisionEndpoint) ||
+    process.env.NEXT_PUBLIC_KYC_DECISION_ENDPOINT ||
+    `${getApiBaseUrl()}${DEFAULT_DECISION_PATH}`
+  );
+}
+
+// Four-eyes mode is on unless turned off with
+// `window.__KYC_CONFIG__.fourEyes = false` or `NEXT_PUBLIC_KYC_FOUR_EYES=false`.
+export function isFourEyesEnabled(): boolean {
+  const configured =
+    typeof window !== "undefined" ? window.__KYC_CONFIG__?.fourEyes : undefined;
+  if (configured !== undefined) {
+    return configured;
+  }
+  return process.env.NEXT_PUBLIC_KYC_FOUR_EYES !== "false";
+}
+
+// High-risk means in the risk policy's highest band: the summary is in it, or
+// any analysis score falls in it.
+export function isHighRisk(
+  result: KYCResult,
+  bands: RiskBand[] = getRiskBands()
+): boolean {
+  const band = summaryBand(result.kyc_data.verificationSummary, bands);
+  return (
+    (band !== null && isHighestBand(band, bands)) ||
+    analysisSections(result, bands).some(
+      (section) => section.score && isHighestBand(section.score.band, bands)
+    )
+  );
+}
+
+export function requiresSecondReview(
+  action: DecisionAction,
+  result: KYCResult
+): boolean {
+  return action === "approve" && isFourEyesEnabled() && isHighRisk(result);
+}
+
+export interface DecisionDraft {
+  action: DecisionAction;
+  reasonCodes: string[];
+  notes: string;
+  reviewer: string;
+}
+
+export function draftErrors(draft: DecisionDraft): string[] {
+  const errors: string[] = [];
+  if (!draft.reviewer.trim()) {
+    errors.push("A reviewer is required.");
+  }
+  if (draft.reasonCodes.length === 0) {
+    errors.push("Select at least one reason.");
+  }
+  return errors;
+}
+
+export function createDecision(
+  draft: DecisionDraft,
+  result: KYCResult,
+  now = new Date()
+): ReviewDecision {
+  return {
+    action: draft.action,
+    reasonCodes: draft.reasonCodes,
+    notes: draft.notes.trim(),
+    reviewer: draft.reviewer.trim(),
+    decidedAt: now.toISOString(),
+    status: requiresSecondReview(draft.action, result)
+      ? "pending_confirmation"
+      : "final",
+    confirmedBy: null,
+    confirmedAt: null,
+  };
+}
+
+// The confirming reviewer must be someone other than the one who decided.
+export function confirmDecision(
+  decision: ReviewDecision,
+  reviewer: string,
+  now = new Date()
+): ReviewDecision {
+  const name = reviewer.trim();
+  if (!name) {
+    throw new Error("A confirming reviewer is required.");
+  }
+  if (sameReviewer(name, decision.reviewer)) {
+    throw new Error("A second reviewer must confirm this approval.");
+  }
+  return {
+    ...decision,
+    status: "final",
+    confirmedBy: name,
+    confirmedAt: now.toISOString(),
+  };
+}
+
+function sameReviewer(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+// Why `user` may not submit `decision`, or null if they may. The decision
+// panel applies the same rules, but only this check, run by the decisions API
+// route, can be relied on: approving needs the approve permission, a decision
+// is recorded under the submitter's own name, and an approval is confirmed by
+// someone other than the reviewer who made it.
+export function decisionSubmissionError(
+  decision: ReviewDecision,
+  user: Pick<SessionUser, "username" | "role">
+): string | null {
+  if (decision.action === "approve" && !hasPermission(user.role, "approve")) {
+    return "Your role does not allow approvals";
+  }
+  if (decision.confirmedBy === null) {
+    return sameReviewer(decision.reviewer, user.username)
+      ? null
+      : "A decision must be recorded under your own name";
+  }
+  if (!sameReviewer(decision.confirmedBy, user.username)) {
+    return "A confirmation must be recorded under your own name";
+  }
+  if (sameReviewer(decision.confirmedBy, decision.reviewer)) {
+    return "A second reviewer must confirm this approval";
+  }
+  return null;
+}
+
+export function reasonLabel(action: DecisionAction, code: string): string {
+  return (
+    REASON_CODES[action].find((reason) => reason.code === code)?.label ?? code
+  );
+}
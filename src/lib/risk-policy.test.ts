@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  DEFAULT_RISK_BANDS,
+  getRiskBands,
+  riskBandFor,
+  setRiskContext,
+  setRiskPolicies,
+  type RiskPolicy,
+} from "@/lib/risk-policy";
+
+const retailBands: RiskPolicy["bands"] = [
+  {
+    id: "high",
+    label: "Severe",
+    minScore: 60,
+    colour: "red",
+    action: "Reject",
+  },
+  { id: "low", label: "Low", minScore: 0, colour: "green", action: "Approve" },
+];
+
+afterEach(() => {
+  setRiskPolicies(null);
+  setRiskContext(null);
+  vi.restoreAllMocks();
+});
+
+describe("getRiskBands", () => {
+  it("uses the defaults without policies", () => {
+    expect(getRiskBands()).toEqual(DEFAULT_RISK_BANDS);
+  });
+
+  it("applies the first policy matching the context, sorted by score", () => {
+    setRiskPolicies([
+      { product: "loan", segment: "retail", bands: retailBands },
+      { product: "loan", bands: DEFAULT_RISK_BANDS },
+    ]);
+    expect(getRiskBands({ product: "loan", segment: "retail" })).toEqual([
+      retailBands[1],
+      retailBands[0],
+    ]);
+    expect(getRiskBands({ product: "loan" })).toEqual(DEFAULT_RISK_BANDS);
+    expect(getRiskBands({ product: "card" })).toEqual(DEFAULT_RISK_BANDS);
+  });
+
+  it("reads the context set at runtime", () => {
+    setRiskPolicies([{ segment: "retail", bands: retailBands }]);
+    setRiskContext({ segment: "retail" });
+    expect(riskBandFor(65).label).toBe("Severe");
+  });
+
+  describe("invalid policies", () => {
+    it.each([
+      ["no bands", [{ bands: [] }]],
+      [
+        "an unknown colour",
+        [{ bands: [{ ...retailBands[0], colour: "purple" }] }],
+      ],
+      ["duplicate ids", [{ bands: [retailBands[0], retailBands[0]] }]],
+      ["a score over 100", [{ bands: [{ ...retailBands[0], minScore: 120 }] }]],
+      ["not an array", { bands: retailBands }],
+    ])("falls back to the defaults for %s", (_, policies) => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      setRiskPolicies(policies as unknown as RiskPolicy[]);
+      expect(getRiskBands()).toEqual(DEFAULT_RISK_BANDS);
+      expect(riskBandFor(80).label).toBe("High");
+      expect(console.error).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import {
+  bandColourSchema,
+  riskPolicySchema,
+  type RiskBand,
+  type RiskPolicy,
+  type VerificationSummary,
+} from "@/lib/schemas";
+
+export type { BandColour, RiskBand, RiskPolicy } from "@/lib/schemas";
+
+export const BAND_COLOURS = bandColourSchema.options;
+
+// The product and customer segment the portal is verifying for.
+export interface RiskContext {
+  product?: string;
+  segment?: string;
+}
+
+export const DEFAULT_RISK_BANDS: RiskBand[] = [
+  { id: "low", label: "Low", minScore: 0, colour: "green", action: "Approve" },
+  {
+    id: "medium",
+    label: "Medium",
+    minScore: 50,
+    colour: "amber",
+    action: "Review",
+  },
+  { id: "high", label: "High", minScore: 75, colour: "red", action: "Reject" },
+];
+
+let runtimePolicies: RiskPolicy[] | null = null;
+let runtimeContext: RiskContext | null = null;
+
+// Lets the host page load the compliance team's policies without a rebuild.
+export function setRiskPolicies(policies: RiskPolicy[] | null) {
+  runtimePolicies = policies;
+}
+
+export function setRiskContext(context: RiskContext | null) {
+  runtimeContext = context;
+}
+
+// `setRiskContext()`, then `window.__KYC_CONFIG__.riskContext`.
+export function getRiskContext(): RiskContext {
+  return (
+    runtimeContext ??
+    (typeof window !== "undefined"
+      ? window.__KYC_CONFIG__?.riskContext
+      : undefined) ??
+    {}
+  );
+}
+
+// The last policies checked, so an invalid set is reported once, not on
+// every render.
+let validated: { source: unknown; policies: RiskPolicy[] } | null = null;
+
+function validPolicies(source: unknown): RiskPolicy[] {
+  if (validated && validated.source === source) {
+    return validated.policies;
+  }
+  const parsed = riskPolicySchema.array().safeParse(source);
+  if (!parsed.success) {
+    console.error("Invalid risk policies, using the defaults:", parsed.error);
+  }
+  validated = { source, policies: parsed.data ?? [] };
+  return validated.policies;
+}
+
+// Policies come from `setRiskPolicies()`, else
+// `window.__KYC_CONFIG__.riskPolicies`, most specific first: the first one
+// whose product and segment match the context applies. With no match, or
+// policies that fail validation, the default bands do.
+export function getRiskBands(
+  context: RiskContext = getRiskContext()
+): RiskBand[] {
+  const configured =
+    runtimePolicies ??
+    (typeof window !== "undefined"
+      ? window.__KYC_CONFIG__?.riskPolicies
+      : undefined) ??
+    [];
+  const policy = validPolicies(configured).find(
+    (candidate) =>
+      (!candidate.product || candidate.product === context.product) &&
+      (!candidate.segment || candidate.segment === context.segment)
+  );
+  return [...(policy?.bands ?? DEFAULT_RISK_BANDS)].sort(
+    (a, b) => a.minScore - b.minScore
+  );
+}
+
+// Scores below the lowest band's minimum still fall in the lowest band.
+export function riskBandFor(
+  score: number,
+  bands: RiskBand[] = getRiskBands()
+): RiskBand {
+  return (
+    [...bands].reverse().find((band) => score >= band.minScore) ?? bands[0]
+  );
+}
+
+export function isHighestBand(
+  band: RiskBand,
+  bands: RiskBand[] = getRiskBands()
+): boolean {
+  return band.id === bands[bands.length - 1]?.id;
+}
+
+const sameText = (a: string, b: string) =>
+  a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// The band a summary's risk level names, e.g. "High".
+export function bandForLabel(
+  label: string,
+  bands: RiskBand[] = getRiskBands()
+): RiskBand | null {
+  return bands.find((band) => sameText(band.label, label)) ?? null;
+}
+
+// The (first) band that recommends an action, e.g. "Approve".
+export function bandForAction(
+  action: string,
+  bands: RiskBand[] = getRiskBands()
+): RiskBand | null {
+  return bands.find((band) => sameText(band.action, action)) ?? null;
+}
+
+// The band a verification summary is in: the one its risk level names, else
+// the one recommending its action, for backends with labels of their own.
+export function summaryBand(
+  summary: VerificationSummary,
+  bands: RiskBand[] = getRiskBands()
+): RiskBand | null {
+  return (
+    bandForLabel(summary.riskScore, bands) ??
+    bandForAction(summary.recommendedAction, bands)
+  );
+}
@@ -0,0 +1,313 @@
+import { z } from "zod";
+import { JSON_REPAIRS } from "@/lib/json-repair";
+
+export type DocumentValue =
+  | string
+  | number
+  | boolean
+  | null
+  | DocumentValue[]
+  | DocumentData;
+
+export interface DocumentData {
+  [key: string]: DocumentValue;
+}
+
+const documentValueSchema: z.ZodType<DocumentValue> = z.lazy(() =>
+  z.union([
+    z.string(),
+    z.number(),
+    z.boolean(),
+    z.null(),
+    z.array(documentValueSchema),
+    documentDataSchema,
+  ])
+);
+
+export const documentDataSchema: z.ZodType<DocumentData> = z.lazy(() =>
+  z.record(z.string(), documentValueSchema)
+);
+
+// Source region of an extracted field. Coordinates are fractions (0-1) of the
+// page size, measured from the top-left corner; `page` is 1-based.
+export const boundingBoxSchema = z.object({
+  page: z.number().int().min(1).default(1),
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().min(0).max(1),
+  height: z.number().min(0).max(1),
+});
+
+export const documentStatusSchema = z.enum([
+  "processed",
+  "skipped",
+  "failed",
+  "unmatched",
+]);
+
+export const documentSchema = z.object({
+  id: z.string(),
+  filename: z.string(),
+  status: documentStatusSchema,
+  error: z.string().optional(),
+  type: z.string(),
+  data: documentDataSchema,
+  repairs: z.array(z.enum(JSON_REPAIRS)).optional(),
+  unparsed: z.boolean().optional(),
+  // Snapshot of `data` as extracted, kept once a reviewer starts editing.
+  originalData: documentDataSchema.optional(),
+  // Keyed by field path, as produced by `flattenDocumentData`.
+  boundingBoxes: z.record(z.string(), boundingBoxSchema).optional(),
+});
+
+export const verificationSummarySchema = z.object({
+  identityVerified: z.boolean(),
+  riskScore: z.string(),
+  recommendedAction: z.string(),
+});
+
+const scoreSchema = z.number().min(0).max(100);
+
+export const fraudDetectionSchema = z.object({
+  FraudAnalysis: z.string(),
+  FraudRiskScore: scoreSchema,
+  finalResponse: z.string(),
+});
+
+export const riskAssessmentSchema = z.object({
+  RiskAnalysis: z.string(),
+  RiskScore: scoreSchema,
+  finalResponse: z.string(),
+});
+
+export const complianceCheckSchema = z.object({
+  ComplianceAnalysis: z.string(),
+  ComplianceStatus: z.string(),
+  finalResponse: z.string(),
+});
+
+// The backend echoes back the documents it was sent, which carry no `type`.
+const kycDocumentSchema = z.object({
+  document_id: z.string().optional(),
+  filename: z.string(),
+  type: z.string().optional(),
+  data: documentDataSchema,
+});
+
+export const kycResultSchema = z.object({
+  message: z.string(),
+  // Loose, so blocks from analysis agents the portal doesn't know yet are
+  // kept and shown (see `src/lib/analysis-sections.ts`).
+  kyc_data: z.looseObject({
+    documentData: z.union([z.array(kycDocumentSchema), kycDocumentSchema]),
+    verificationSummary: verificationSummarySchema,
+    FraudDetection: fraudDetectionSchema.optional(),
+    RiskAssessment: riskAssessmentSchema.optional(),
+    ComplianceCheck: complianceCheckSchema.optional(),
+  }),
+});
+
+export const processedDocumentSchema = z.object({
+  document_id: z.string(),
+  status: z.enum(["ok", "skipped", "failed"]).default("ok"),
+  data: z.string().optional(),
+  error: z.string().optional(),
+  bounding_boxes: z.record(z.string(), boundingBoxSchema).optional(),
+});
+
+// Older backends return a bare list of model outputs with no document IDs.
+export const processDocsResponseSchema = z.object({
+  data: z.union([z.array(processedDocumentSchema), z.array(z.string())]),
+});
+
+export const progressUpdateSchema = z.object({
+  stage: z.string(),
+  message: z.string().optional(),
+  current: z.number().optional(),
+  total: z.number().optional(),
+  percent: z.number().min(0).max(100).optional(),
+});
+
+// Events on the optional streaming channel (SSE or NDJSON) of the processing
+// endpoints. `progress` may repeat; the stream ends with `result` or `error`.
+export const progressEventSchema = z.discriminatedUnion("type", [
+  progressUpdateSchema.extend({ type: z.literal("progress") }),
+  z.object({
+    type: z.literal("result"),
+    result: z.unknown(),
+  }),
+  z.object({
+    type: z.literal("error"),
+    message: z.string(),
+    status: z.number().optional(),
+  }),
+]);
+
+export const uploadedFileSchema = z.object({
+  documentId: z.string(),
+  filename: z.string(),
+  storedName: z.string(),
+});
+
+export const jobAcceptedSchema = z.object({
+  job_id: z.string(),
+});
+
+// `metadata` is stored with the job at submission and echoed back untouched,
+// which is what lets a reloaded page rebuild its state from the job alone.
+export const jobSchema = z.object({
+  job_id: z.string(),
+  kind: z.enum(["process_docs", "process_kyc"]),
+  status: z.enum(["queued", "running", "succeeded", "failed"]),
+  progress: progressUpdateSchema.optional(),
+  result: z.unknown().optional(),
+  error: z.string().optional(),
+  metadata: z
+    .object({
+      uploads: z.array(uploadedFileSchema).optional(),
+      extraction_job_id: z.string().optional(),
+    })
+    .optional(),
+});
+
+export const caseFileSchema = z.object({
+  documentId: z.string(),
+  filename: z.string(),
+  size: z.number().optional(),
+  mimeType: z.string().optional(),
+});
+
+// A reviewer's decision on a KYC result. High-risk approvals can require a
+// second reviewer, so a decision stays `pending_confirmation` until confirmed.
+export const decisionActionSchema = z.enum([
+  "approve",
+  "reject",
+  "request_documents",
+  "escalate",
+]);
+
+export const reviewDecisionSchema = z.object({
+  action: decisionActionSchema,
+  reasonCodes: z.array(z.string()).min(1),
+  notes: z.string(),
+  reviewer: z.string(),
+  decidedAt: z.string(),
+  status: z.enum(["pending_confirmation", "final"]),
+  confirmedBy: z.string().nullable(),
+  confirmedAt: z.string().nullable(),
+});
+
+// Body of a decision submitted to the decisions endpoint.
+export const decisionRequestSchema = z.object({
+  case_id: z.string().min(1),
+  decision: reviewDecisionSchema,
+});
+
+// A completed verification kept in the case history. Dates are ISO strings so
+// a record round-trips through IndexedDB and JSON unchanged.
+export const caseRecordSchema = z.object({
+  id: z.string(),
+  startedAt: z.string().nullable(),
+  completedAt: z.string(),
+  files: z.array(caseFileSchema),
+  documents: z.array(documentSchema),
+  kycResult: kycResultSchema,
+  outcome: z.string(),
+  riskScore: z.number().nullable(),
+  extractionJobId: z.string().nullable(),
+  decision: reviewDecisionSchema.nullable().optional(),
+});
+
+// Score bands of a risk policy (see `src/lib/risk-policy.ts`). Policies come
+// from the host page, so they are checked like any other external input.
+export const bandColourSchema = z.enum([
+  "green",
+  "yellow",
+  "amber",
+  "orange",
+  "red",
+  "gray",
+]);
+
+export const riskBandSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  minScore: scoreSchema,
+  colour: bandColourSchema,
+  action: z.string().min(1),
+});
+
+export const riskPolicySchema = z.object({
+  product: z.string().optional(),
+  segment: z.string().optional(),
+  bands: z
+    .array(riskBandSchema)
+    .min(1)
+    .refine(
+      (bands) => new Set(bands.map((band) => band.id)).size === bands.length,
+      "Band ids must be unique"
+    ),
+});
+
+export type Document = z.infer<typeof documentSchema>;
+export type DocumentStatus = z.infer<typeof documentStatusSchema>;
+export type BoundingBox = z.infer<typeof boundingBoxSchema>;
+export type ProcessedDocument = z.infer<typeof processedDocumentSchema>;
+export type KycDocument = z.infer<typeof kycDocumentSchema>;
+export type VerificationSummary = z.infer<typeof verificationSummarySchema>;
+export type FraudDetection = z.infer<typeof fraudDetectionSchema>;
+export type RiskAssessment = z.infer<typeof riskAssessmentSchema>;
+export type ComplianceCheck = z.infer<typeof complianceCheckSchema>;
+export type KYCResult = z.infer<typeof kycResultSchema>;
+export type ProcessDocsResponse = z.infer<typeof processDocsResponseSchema>;
+export type ProgressEvent = z.infer<typeof progressEventSchema>;
+export type ProgressUpdate = z.infer<typeof progressUpdateSchema>;
+export type UploadedFile = z.infer<typeof uploadedFileSchema>;
+export type Job = z.infer<typeof jobSchema>;
+export type JobMetadata = NonNullable<Job["metadata"]>;
+export type CaseFile = z.infer<typeof caseFileSchema>;
+export type DecisionAction = z.infer<typeof decisionActionSchema>;
+export type ReviewDecision = z.infer<typeof reviewDecisionSchema>;
+export type CaseRecord = z.infer<typeof caseRecordSchema>;
+export type BandColour = z.infer<typeof bandColourSchema>;
+export type RiskBand = z.infer<typeof riskBandSchema>;
+export type RiskPolicy = z.infer<typeof riskPolicySchema>;
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export class ResponseValidationError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(source: string, issues: ValidationIssue[]) {
+    const first = issues[0];
+    super(
+      first
+        ? `Invalid ${source} response: \`${first.path}\` ${first.message}`
+        : `Invalid ${source} response`
+    );
+    this.name = "ResponseValidationError";
+    this.issues = issues;
+  }
+}
+
+export function parseResponse<T>(
+  schema: z.ZodType<T>,
+  payload: unknown,
+  source: string
+): T {
+  const result = schema.safeParse(payload);
+  if (result.success) {
+    return result.data;
+  }
+
+  throw new ResponseValidationError(
+    source,
+    result.error.issues.map((issue) => ({
+      path: issue.path.map(String).join(".") || "(root)",
+      message: issue.message,
+    }))
+  );
+}
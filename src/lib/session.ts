@@ -0,0 +1,8 @@
+import { cookies } from "next/headers";
+import { SESSION_COOKIE, verifySessionToken, type Session } from "@/lib/auth";
+
+// Server components and route handlers: the signed-in user, if any.
+export async function getSession(): Promise<Session | null> {
+  const cookieStore = await cookies();
+  return verifySessionToken(cookieStore.get(SESSION_COOKIE)?.value);
+}
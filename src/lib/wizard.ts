@@ -0,0 +1,55 @@
+import type { WorkflowStep } from "@/lib/workflow";
+
+export const WIZARD_STEPS = ["upload", "review", "analysis", "result"] as const;
+
+export type WizardStep = (typeof WIZARD_STEPS)[number];
+
+export const WIZARD_STEP_LABELS: Record<WizardStep, string> = {
+  upload: "Upload",
+  review: "Review",
+  analysis: "KYC Analysis",
+  result: "Result",
+};
+
+// The page each workflow step is shown on. Restoring a session has no page of
+// its own: it shows on whichever page it was started from.
+const STEP_PAGES: Record<WorkflowStep, WizardStep | null> = {
+  select: "upload",
+  uploading: "upload",
+  extracting: "upload",
+  loading: null,
+  review: "review",
+  verifying: "analysis",
+  result: "result",
+};
+
+export function wizardStepFor(step: WorkflowStep): WizardStep | null {
+  return STEP_PAGES[step];
+}
+
+export function wizardStepForPath(pathname: string): WizardStep | null {
+  return WIZARD_STEPS.find((step) => pathname === `/${step}`) ?? null;
+}
+
+// What a wizard URL can be reloaded or shared from: an async job, or a case
+// in the case history.
+export type WizardSource = { jobId: string } | { caseId: string } | null;
+
+export function wizardHref(step: WizardStep, source: WizardSource): string {
+  if (!source) {
+    return `/${step}`;
+  }
+  const params = new URLSearchParams(
+    "jobId" in source ? { job: source.jobId } : { case: source.caseId }
+  );
+  return `/${step}?${params}`;
+}
+
+export function wizardSourceFromParams(params: URLSearchParams): WizardSource {
+  const jobId = params.get("job");
+  if (jobId) {
+    return { jobId };
+  }
+  const caseId = params.get("case");
+  return caseId ? { caseId } : null;
+}
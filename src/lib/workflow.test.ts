@@ -0,0 +1,394 @@
+import { describe, expect, it } from "vitest";
+import type { Document, KYCResult, UploadedFile } from "@/lib/kyc-api";
+import { DEFAULT_RISK_BANDS } from "@/lib/risk-policy";
+import type { ReviewDecision } from "@/lib/schemas";
+import {
+  INITIAL_WORKFLOW_STATE,
+  buildExtractedData,
+  workflowReducer,
+  type PreCheckContext,
+  type WorkflowError,
+  type WorkflowEvent,
+  type WorkflowState,
+} from "@/lib/workflow";
+
+const uploads: UploadedFile[] = [
+  { documentId: "doc-1", filename: "pan.jpg", storedName: "abc.jpg" },
+];
+
+const documents: Document[] = [
+  {
+    id: "doc-1",
+    filename: "pan.jpg",
+    status: "processed",
+    type: "pan",
+    data: { name: "Asha Rao", pan_number: "ABCPE1234F" },
+  },
+];
+
+const kycResult: KYCResult = {
+  message: "KYC verification successful",
+  kyc_data: {
+    documentData: [{ filename: "pan.jpg", data: documents[0].data }],
+    verificationSummary: {
+      identityVerified: true,
+      riskScore: "Low",
+      recommendedAction: "Approve",
+    },
+  },
+};
+
+const decision: ReviewDecision = {
+  action: "approve",
+  reasonCodes: ["DOCS_VERIFIED"],
+  notes: "",
+  reviewer: "reviewer",
+  decidedAt: "2025-01-01T00:00:00.000Z",
+  status: "final",
+  confirmedBy: null,
+  confirmedAt: null,
+};
+
+const error: WorkflowError = { message: "Backend unavailable", issues: [] };
+
+const completedAt = new Date("2025-01-01T00:00:00.000Z");
+
+const preCheck: PreCheckContext = {
+  now: new Date("2025-01-01T00:00:00.000Z"),
+  bands: DEFAULT_RISK_BANDS,
+};
+
+const extractedData = buildExtractedData(documents, preCheck);
+
+const kycSucceeded = {
+  type: "KYC_SUCCEEDED",
+  kycResult,
+  completedAt,
+  caseId: "case-1",
+} as const;
+
+const states = {
+  uploading: { step: "uploading" },
+  extracting: { step: "extracting", uploads },
+  loading: { step: "loading" },
+  review: { step: "review", extractedData, error: null },
+  verifying: { step: "verifying", extractedData },
+  result: {
+    step: "result",
+    extractedData,
+    kycResult,
+    completedAt,
+    caseId: "case-1",
+    decision: null,
+    error: null,
+  },
+} satisfies Record<string, WorkflowState>;
+
+function run(state: WorkflowState, ...events: WorkflowEvent[]) {
+  return events.reduce(workflowReducer, state);
+}
+
+describe("workflowReducer", () => {
+  describe("any step", () => {
+    it.each(Object.values(states))("resets from $step", (state) => {
+      expect(run(state, { type: "RESET" })).toBe(INITIAL_WORKFLOW_STATE);
+    });
+
+    it.each(Object.values(states))("starts loading from $step", (state) => {
+      expect(run(state, { type: "LOAD_STARTED" })).toEqual({
+        step: "loading",
+      });
+    });
+  });
+
+  describe("select", () => {
+    it("starts an upload", () => {
+      expect(run(INITIAL_WORKFLOW_STATE, { type: "UPLOAD_STARTED" })).toEqual(
+        states.uploading
+      );
+    });
+
+    it("retries extraction of earlier uploads", () => {
+      const state: WorkflowState = {
+        step: "select",
+        error,
+        retryUploads: uploads,
+      };
+      expect(run(state, { type: "EXTRACTION_STARTED", uploads })).toEqual(
+        states.extracting
+      );
+    });
+
+    it("records a failure", () => {
+      expect(run(INITIAL_WORKFLOW_STATE, { type: "FAILED", error })).toEqual({
+        step: "select",
+        error,
+        retryUploads: null,
+      });
+    });
+
+    it("ignores results and cancels", () => {
+      for (const event of [
+        { type: "CANCEL" },
+        { type: "EXTRACTION_SUCCEEDED", documents, preCheck },
+        kycSucceeded,
+      ] as const) {
+        expect(run(INITIAL_WORKFLOW_STATE, event)).toBe(INITIAL_WORKFLOW_STATE);
+      }
+    });
+  });
+
+  describe("uploading", () => {
+    it("moves on to extraction", () => {
+      expect(
+        run(states.uploading, { type: "EXTRACTION_STARTED", uploads })
+      ).toEqual(states.extracting);
+    });
+
+    it("cancels back to an empty selection", () => {
+      expect(run(states.uploading, { type: "CANCEL" })).toBe(
+        INITIAL_WORKFLOW_STATE
+      );
+    });
+
+    it("returns to the selection with the error when the upload fails", () => {
+      expect(run(states.uploading, { type: "UPLOAD_FAILED", error })).toEqual({
+        step: "select",
+        error,
+        retryUploads: null,
+      });
+    });
+
+    it("ignores a late extraction result", () => {
+      expect(
+        run(states.uploading, {
+          type: "EXTRACTION_SUCCEEDED",
+          documents,
+          preCheck,
+        })
+      ).toBe(states.uploading);
+    });
+  });
+
+  describe("extracting", () => {
+    it("shows the extracted data for review", () => {
+      expect(
+        run(states.extracting, {
+          type: "EXTRACTION_SUCCEEDED",
+          documents,
+          preCheck,
+        })
+      ).toEqual(states.review);
+    });
+
+    it("keeps the uploads for a retry when extraction fails", () => {
+      expect(
+        run(states.extracting, { type: "EXTRACTION_FAILED", error })
+      ).toEqual({ step: "select", error, retryUploads: uploads });
+    });
+
+    it("keeps the uploads for a retry when cancelled", () => {
+      expect(run(states.extracting, { type: "CANCEL" })).toEqual({
+        step: "select",
+        error: null,
+        retryUploads: uploads,
+      });
+    });
+
+    it("retries via retryUploads after a cancel", () => {
+      const cancelled = run(states.extracting, { type: "CANCEL" });
+      if (cancelled.step !== "select" || !cancelled.retryUploads) {
+        throw new Error("Expected uploads to retry");
+      }
+      expect(
+        run(
+          cancelled,
+          { type: "EXTRACTION_STARTED", uploads: cancelled.retryUploads },
+          { type: "EXTRACTION_SUCCEEDED", documents, preCheck }
+        )
+      ).toEqual(states.review);
+    });
+
+    it("ignores a late extraction result after a cancel", () => {
+      const cancelled = run(states.extracting, { type: "CANCEL" });
+      expect(
+        run(cancelled, { type: "EXTRACTION_SUCCEEDED", documents, preCheck })
+      ).toBe(cancelled);
+    });
+  });
+
+  describe("loading", () => {
+    it("opens a job without a KYC result for review", () => {
+      expect(
+        run(states.loading, { type: "LOADED", documents, preCheck })
+      ).toEqual(states.review);
+    });
+
+    it("opens a saved case at its result", () => {
+      expect(
+        run(states.loading, {
+          type: "LOADED",
+          documents,
+          preCheck,
+          kycResult,
+          completedAt,
+          caseId: "case-1",
+          decision,
+        })
+      ).toEqual({ ...states.result, caseId: "case-1", decision });
+    });
+
+    it("returns to the selection when loading fails", () => {
+      expect(run(states.loading, { type: "LOAD_FAILED", error })).toEqual({
+        step: "select",
+        error,
+        retryUploads: null,
+      });
+    });
+
+    it("ignores a cancel", () => {
+      expect(run(states.loading, { type: "CANCEL" })).toBe(states.loading);
+    });
+  });
+
+  describe("review", () => {
+    it("changes a document's type and reruns the pre-check", () => {
+      const next = run(states.review, {
+        type: "DOCUMENT_TYPE_CHANGED",
+        id: "doc-1",
+        documentType: "aadhaar",
+        preCheck,
+      });
+      expect(next).toEqual({
+        step: "review",
+        extractedData: buildExtractedData(
+          [{ ...documents[0], type: "aadhaar" }],
+          preCheck
+        ),
+        error: null,
+      });
+    });
+
+    it("edits a document's data and keeps the original", () => {
+      const data = { name: "Asha R. Rao", pan_number: "ABCPE1234F" };
+      const next = run(
+        states.review,
+        { type: "DOCUMENT_DATA_CHANGED", id: "doc-1", data, preCheck },
+        {
+          type: "DOCUMENT_DATA_CHANGED",
+          id: "doc-1",
+          data: { name: "A" },
+          preCheck,
+        }
+      );
+      if (next.step !== "review") throw new Error("Expected review");
+      expect(next.extractedData.documents[0]).toMatchObject({
+        data: { name: "A" },
+        originalData: documents[0].data,
+      });
+    });
+
+    it("leaves other documents alone", () => {
+      expect(
+        run(states.review, {
+          type: "DOCUMENT_TYPE_CHANGED",
+          id: "doc-2",
+          documentType: "aadhaar",
+          preCheck,
+        })
+      ).toEqual(states.review);
+    });
+
+    it("starts the KYC check", () => {
+      expect(run(states.review, { type: "KYC_STARTED" })).toEqual(
+        states.verifying
+      );
+    });
+
+    it("records a failure", () => {
+      expect(run(states.review, { type: "FAILED", error })).toEqual({
+        ...states.review,
+        error,
+      });
+    });
+
+    it("ignores a stray upload failure", () => {
+      expect(run(states.review, { type: "UPLOAD_FAILED", error })).toBe(
+        states.review
+      );
+    });
+
+    it("ignores a cancel and a stray KYC result", () => {
+      expect(run(states.review, { type: "CANCEL" })).toBe(states.review);
+      expect(run(states.review, kycSucceeded)).toBe(states.review);
+    });
+  });
+
+  describe("verifying", () => {
+    it("shows the result", () => {
+      expect(run(states.verifying, kycSucceeded)).toEqual(states.result);
+    });
+
+    it("returns to review with the error when the check fails", () => {
+      expect(run(states.verifying, { type: "KYC_FAILED", error })).toEqual({
+        ...states.review,
+        error,
+      });
+    });
+
+    it("cancels back to review", () => {
+      expect(run(states.verifying, { type: "CANCEL" })).toEqual(states.review);
+    });
+
+    it("ignores a late KYC result after a cancel", () => {
+      expect(run(states.verifying, { type: "CANCEL" }, kycSucceeded)).toEqual(
+        states.review
+      );
+    });
+
+    it("ignores a late KYC failure after a cancel", () => {
+      expect(
+        run(states.verifying, { type: "CANCEL" }, { type: "KYC_FAILED", error })
+      ).toEqual(states.review);
+    });
+  });
+
+  describe("result", () => {
+    it("records the decision", () => {
+      expect(
+        run(states.result, { type: "DECISION_RECORDED", decision })
+      ).toEqual({ ...states.result, decision });
+    });
+
+    it("records a failure", () => {
+      expect(run(states.result, { type: "FAILED", error })).toEqual({
+        ...states.result,
+        error,
+      });
+    });
+
+    it("goes back to review with the same data", () => {
+      expect(run(states.result, { type: "BACK_TO_REVIEW" })).toEqual(
+        states.review
+      );
+    });
+
+    it("ignores a cancel and review edits", () => {
+      expect(run(states.result, { type: "CANCEL" })).toBe(states.result);
+      expect(
+        run(states.result, {
+          type: "DOCUMENT_TYPE_CHANGED",
+          id: "doc-1",
+          documentType: "aadhaar",
+          preCheck,
+        })
+      ).toBe(states.result);
+    });
+  });
+
+  it("ignores BACK_TO_REVIEW outside the result step", () => {
+    expect(run(states.verifying, { type: "BACK_TO_REVIEW" })).toBe(
+      states.verifying
+    );
+  });
+});
@@ -0,0 +1,289 @@
+import type { DocumentTypeId } from "@/lib/document-types";
+import type {
+  Document,
+  DocumentData,
+  ExtractedData,
+  KYCResult,
+  UploadedFile,
+} from "@/lib/kyc-api";
+import { runPreCheck } from "@/lib/pre-check";
+import { getRiskBands, type RiskBand } from "@/lib/risk-policy";
+import {
+  ResponseValidationError,
+  type ReviewDecision,
+  type ValidationIssue,
+} from "@/lib/schemas";
+
+export interface WorkflowError {
+  message: string;
+  issues: ValidationIssue[];
+}
+
+// One state per view of the upload → extract → KYC workflow. Only the steps
+// the user can act on carry an error, so an error always belongs to exactly
+// one view.
+export type WorkflowState =
+  | {
+      step: "select";
+      error: WorkflowError | null;
+      // Files that uploaded but failed extraction, so it can be retried.
+      retryUploads: UploadedFile[] | null;
+    }
+  | { step: "uploading" }
+  | { step: "extracting"; uploads: UploadedFile[] }
+  | { step: "loading" }
+  | {
+      step: "review";
+      extractedData: ExtractedData;
+      error: WorkflowError | null;
+    }
+  | { step: "verifying"; extractedData: ExtractedData }
+  | {
+      step: "result";
+      extractedData: ExtractedData;
+      kycResult: KYCResult;
+      completedAt: Date | null;
+      caseId: string | null;
+      decision: ReviewDecision | null;
+      error: WorkflowError | null;
+    };
+
+export type WorkflowStep = WorkflowState["step"];
+
+// What the pre-check reads besides the documents. Events that change the
+// documents carry it, so the reducer stays pure.
+export interface PreCheckContext {
+  now: Date;
+  bands: RiskBand[];
+}
+
+export type WorkflowEvent =
+  | { type: "UPLOAD_STARTED" }
+  | { type: "UPLOAD_FAILED"; error: WorkflowError }
+  | { type: "EXTRACTION_STARTED"; uploads: UploadedFile[] }
+  | {
+      type: "EXTRACTION_SUCCEEDED";
+      documents: Document[];
+      preCheck: PreCheckContext;
+    }
+  | { type: "EXTRACTION_FAILED"; error: WorkflowError }
+  | { type: "LOAD_STARTED" }
+  | {
+      type: "LOADED";
+      documents: Document[];
+      preCheck: PreCheckContext;
+      kycResult?: KYCResult | null;
+      completedAt?: Date | null;
+      caseId?: string | null;
+      decision?: ReviewDecision | null;
+    }
+  | { type: "LOAD_FAILED"; error: WorkflowError }
+  | {
+      type: "DOCUMENT_TYPE_CHANGED";
+      id: string;
+      documentType: DocumentTypeId;
+      preCheck: PreCheckContext;
+    }
+  | {
+      type: "DOCUMENT_DATA_CHANGED";
+      id: string;
+      data: DocumentData;
+      preCheck: PreCheckContext;
+    }
+  | { type: "KYC_STARTED" }
+  | {
+      type: "KYC_SUCCEEDED";
+      kycResult: KYCResult;
+      completedAt: Date;
+      caseId: string;
+    }
+  | { type: "KYC_FAILED"; error: WorkflowError }
+  | { type: "DECISION_RECORDED"; decision: ReviewDecision }
+  | { type: "FAILED"; error: WorkflowError }
+  | { type: "CANCEL" }
+  | { type: "BACK_TO_REVIEW" }
+  | { type: "RESET" };
+
+export const INITIAL_WORKFLOW_STATE: WorkflowState = {
+  step: "select",
+  error: null,
+  retryUploads: null,
+};
+
+// For the provider to attach to events: the time and risk bands right now.
+export function currentPreCheckContext(): PreCheckContext {
+  return { now: new Date(), bands: getRiskBands() };
+}
+
+export function buildExtractedData(
+  documents: Document[],
+  { now, bands }: PreCheckContext
+): ExtractedData {
+  return { documents, verificationSummary: runPreCheck(documents, now, bands) };
+}
+
+export function workflowError(err: unknown, fallback: string): WorkflowError {
+  return {
+    message: err instanceof Error ? err.message : fallback,
+    issues: err instanceof ResponseValidationError ? err.issues : [],
+  };
+}
+
+function editDocuments(
+  extractedData: ExtractedData,
+  id: string,
+  edit: (doc: Document) => Document,
+  preCheck: PreCheckContext
+): ExtractedData {
+  return buildExtractedData(
+    extractedData.documents.map((doc) => (doc.id === id ? edit(doc) : doc)),
+    preCheck
+  );
+}
+
+function review(
+  extractedData: ExtractedData,
+  error: WorkflowError | null = null
+): WorkflowState {
+  return { step: "review", extractedData, error };
+}
+
+// Events that make no sense in the current step are ignored, which is what
+// lets a late response from a cancelled request arrive harmlessly.
+export function workflowReducer(
+  state: WorkflowState,
+  event: WorkflowEvent
+): WorkflowState {
+  switch (event.type) {
+    case "RESET":
+      return INITIAL_WORKFLOW_STATE;
+    case "LOAD_STARTED":
+      return { step: "loading" };
+  }
+
+  switch (state.step) {
+    case "select":
+      switch (event.type) {
+        case "UPLOAD_STARTED":
+          return { step: "uploading" };
+        case "EXTRACTION_STARTED":
+          return { step: "extracting", uploads: event.uploads };
+        case "FAILED":
+          return { ...state, error: event.error };
+      }
+      return state;
+
+    case "uploading":
+      switch (event.type) {
+        case "EXTRACTION_STARTED":
+          return { step: "extracting", uploads: event.uploads };
+        case "UPLOAD_FAILED":
+          return { step: "select", error: event.error, retryUploads: null };
+        case "CANCEL":
+          return INITIAL_WORKFLOW_STATE;
+      }
+      return state;
+
+    case "extracting":
+      switch (event.type) {
+        case "EXTRACTION_SUCCEEDED":
+          return review(buildExtractedData(event.documents, event.preCheck));
+        case "EXTRACTION_FAILED":
+          return {
+            step: "select",
+            error: event.error,
+            retryUploads: state.uploads,
+          };
+        case "CANCEL":
+          return { step: "select", error: null, retryUploads: state.uploads };
+      }
+      return state;
+
+    case "loading":
+      switch (event.type) {
+        case "LOADED": {
+          const extractedData = buildExtractedData(
+            event.documents,
+            event.preCheck
+          );
+          return event.kycResult
+            ? {
+                step: "result",
+                extractedData,
+                kycResult: event.kycResult,
+                completedAt: event.completedAt ?? null,
+                caseId: event.caseId ?? null,
+                decision: event.decision ?? null,
+                error: null,
+              }
+            : review(extractedData);
+        }
+        case "LOAD_FAILED":
+          return { step: "select", error: event.error, retryUploads: null };
+      }
+      return state;
+
+    case "review":
+      switch (event.type) {
+        case "DOCUMENT_TYPE_CHANGED":
+          return review(
+            editDocuments(
+              state.extractedData,
+              event.id,
+              (doc) => ({ ...doc, type: event.documentType }),
+              event.preCheck
+            ),
+            state.error
+          );
+        case "DOCUMENT_DATA_CHANGED":
+          return review(
+            editDocuments(
+              state.extractedData,
+              event.id,
+              (doc) => ({
+                ...doc,
+                data: event.data,
+                originalData: doc.originalData ?? doc.data,
+              }),
+              event.preCheck
+            ),
+            state.error
+          );
+        case "KYC_STARTED":
+          return { step: "verifying", extractedData: state.extractedData };
+        case "FAILED":
+          return { ...state, error: event.error };
+      }
+      return state;
+
+    case "verifying":
+      switch (event.type) {
+        case "KYC_SUCCEEDED":
+          return {
+            step: "result",
+            extractedData: state.extractedData,
+            kycResult: event.kycResult,
+            completedAt: event.completedAt,
+            caseId: event.caseId,
+            decision: null,
+            error: null,
+          };
+        case "KYC_FAILED":
+          return review(state.extractedData, event.error);
+        case "CANCEL":
+          return review(state.extractedData);
+      }
+      return state;
+
+    case "result":
+      switch (event.type) {
+        case "DECISION_RECORDED":
+          return { ...state, decision: event.decision };
+        case "FAILED":
+          return { ...state, error: event.error };
+        case "BACK_TO_REVIEW":
+          return review(state.extractedData);
+      }
+      return state;
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  hasPermission,
+  requiredPermission,
+  ROLE_HEADER,
+  SESSION_COOKIE,
+  USER_HEADER,
+  verifySessionToken,
+} from "@/lib/auth";
+
+const PUBLIC_PATHS = ["/login", "/api/auth/login", "/api/auth/logout"];
+
+function isApi(pathname: string): boolean {
+  return pathname === "/api" || pathname.startsWith("/api/");
+}
+
+// Every page and API route needs a session; some also need a permission.
+// Pages redirect to the login page, API routes answer 401/403 as JSON.
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  if (PUBLIC_PATHS.includes(pathname)) {
+    return NextResponse.next();
+  }
+
+  const session = await verifySessionToken(
+    request.cookies.get(SESSION_COOKIE)?.value
+  );
+  if (!session) {
+    if (isApi(pathname)) {
+      return NextResponse.json(
+        { message: "Sign in to continue" },
+        { status: 401 }
+      );
+    }
+    const login = new URL("/login", request.url);
+    login.searchParams.set("next", `${pathname}${search}`);
+    return NextResponse.redirect(login);
+  }
+
+  const permission = requiredPermission(pathname, request.method);
+  if (permission && !hasPermission(session.role, permission)) {
+    if (isApi(pathname)) {
+      return NextResponse.json(
+        { message: "Your role does not allow this action" },
+        { status: 403 }
+      );
+    }
+    return NextResponse.redirect(new URL("/", request.url));
+  }
+
+  const headers = new Headers(request.headers);
+  headers.set(USER_HEADER, session.username);
+  headers.set(ROLE_HEADER, session.role);
+  return NextResponse.next({ request: { headers } });
+}
+
+export const config = {
+  matcher: ["/((?!_next/static|_next/image|favicon.ico).*)"],
+};